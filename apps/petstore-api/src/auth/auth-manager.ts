@@ -0,0 +1,257 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { Logger, HttpClient, Config, AuthCredentials, SecretRedactor, toAuthSchemeKey } from '../utils/index.js';
+import { ApiTool } from '../types/index.js';
+import { OpenApiLoader } from '../tools/openapi-loader.js';
+
+export interface AuthenticatedRequest {
+  params: Record<string, any>;
+  headers: Record<string, any>;
+}
+
+interface CachedToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number;
+}
+
+// Refresh tokens slightly before they expire so in-flight requests don't race the expiry
+const TOKEN_EXPIRY_SKEW = 30000;
+const DEFAULT_TOKEN_LIFETIME = 3600000;
+
+/**
+ * Applies credentials to outgoing requests based on the operation's OpenAPI security requirements
+ */
+export class AuthManager {
+  private readonly logger = new Logger('AuthManager');
+  private readonly config: Config;
+  private readonly httpClient: HttpClient;
+  private readonly openApiLoader?: OpenApiLoader;
+  private readonly tokens = new Map<string, CachedToken>();
+  private readonly pendingTokens = new Map<string, Promise<CachedToken>>();
+
+  constructor(config: Config, httpClient: HttpClient, openApiLoader?: OpenApiLoader) {
+    this.config = config;
+    this.httpClient = httpClient;
+    this.openApiLoader = openApiLoader;
+
+    Object.values(config.authCredentials).forEach((credentials) => this.registerSecrets(credentials));
+  }
+
+  /**
+   * Adds credentials for the first security requirement of the tool that can be satisfied
+   */
+  async applyCredentials(tool: ApiTool, request: AuthenticatedRequest): Promise<void> {
+    const requirements = this.getSecurityRequirements(tool);
+    if (requirements.length === 0) return;
+
+    const requirement = requirements.find((candidate) => this.canSatisfy(candidate));
+    if (!requirement) {
+      this.logger.warn(`No credentials configured for ${tool.name}, sending request unauthenticated`, {
+        schemes: requirements.map((candidate) => Object.keys(candidate).join(' + ')),
+      });
+      return;
+    }
+
+    for (const [schemeName, scopes] of Object.entries(requirement)) {
+      const scheme = this.getScheme(schemeName);
+      if (!scheme) continue;
+      await this.applyScheme(schemeName, scheme, scopes, request);
+    }
+  }
+
+  /**
+   * Drops cached OAuth2 tokens, e.g. after the upstream rejected one with 401
+   */
+  invalidateTokens(): void {
+    this.tokens.clear();
+  }
+
+  private getSecurityRequirements(tool: ApiTool): OpenAPIV3.SecurityRequirementObject[] {
+    // Operation-level security overrides the document default, and an explicit [] disables it
+    return tool.security ?? this.openApiLoader?.getSpec()?.security ?? [];
+  }
+
+  private canSatisfy(requirement: OpenAPIV3.SecurityRequirementObject): boolean {
+    // An empty requirement ({}) means anonymous access is allowed
+    return Object.keys(requirement).every((schemeName) => {
+      const scheme = this.getScheme(schemeName);
+      const credentials = this.getCredentials(schemeName);
+      return !!scheme && !!credentials && this.hasRequiredCredentials(scheme, credentials);
+    });
+  }
+
+  private hasRequiredCredentials(scheme: OpenAPIV3.SecuritySchemeObject, credentials: AuthCredentials): boolean {
+    switch (scheme.type) {
+      case 'apiKey':
+        return !!credentials.apiKey;
+      case 'http':
+        return scheme.scheme.toLowerCase() === 'basic'
+          ? credentials.username !== undefined && credentials.password !== undefined
+          : !!credentials.token;
+      case 'oauth2':
+        return !!credentials.token || (!!credentials.clientId && !!credentials.clientSecret && !!this.getTokenUrl(scheme, credentials));
+      case 'openIdConnect':
+        return !!credentials.token;
+      default:
+        return false;
+    }
+  }
+
+  private async applyScheme(
+    schemeName: string,
+    scheme: OpenAPIV3.SecuritySchemeObject,
+    scopes: string[],
+    request: AuthenticatedRequest
+  ): Promise<void> {
+    const credentials = this.getCredentials(schemeName) as AuthCredentials;
+
+    switch (scheme.type) {
+      case 'apiKey':
+        this.applyApiKey(scheme, credentials.apiKey as string, request);
+        break;
+
+      case 'http':
+        if (scheme.scheme.toLowerCase() === 'basic') {
+          const encoded = Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64');
+          SecretRedactor.register(encoded);
+          request.headers['Authorization'] = `Basic ${encoded}`;
+        } else {
+          request.headers['Authorization'] = `Bearer ${credentials.token}`;
+        }
+        break;
+
+      case 'oauth2': {
+        const accessToken = credentials.token ?? (await this.getOAuth2Token(schemeName, scheme, credentials, scopes));
+        request.headers['Authorization'] = `Bearer ${accessToken}`;
+        break;
+      }
+
+      case 'openIdConnect':
+        request.headers['Authorization'] = `Bearer ${credentials.token}`;
+        break;
+    }
+
+    this.logger.debug(`Applied ${scheme.type} credentials`, { scheme: schemeName });
+  }
+
+  private applyApiKey(scheme: OpenAPIV3.ApiKeySecurityScheme, apiKey: string, request: AuthenticatedRequest): void {
+    switch (scheme.in) {
+      case 'header':
+        request.headers[scheme.name] = apiKey;
+        break;
+      case 'query':
+        request.params[scheme.name] = apiKey;
+        break;
+      case 'cookie': {
+        const cookie = `${scheme.name}=${encodeURIComponent(apiKey)}`;
+        request.headers['Cookie'] = request.headers['Cookie'] ? `${request.headers['Cookie']}; ${cookie}` : cookie;
+        break;
+      }
+    }
+  }
+
+  private async getOAuth2Token(
+    schemeName: string,
+    scheme: OpenAPIV3.OAuth2SecurityScheme,
+    credentials: AuthCredentials,
+    requiredScopes: string[]
+  ): Promise<string> {
+    const scopes = Array.from(new Set([...(credentials.scopes || []), ...requiredScopes])).sort();
+    const tokenKey = `${schemeName}:${scopes.join(' ')}`;
+
+    const cached = this.tokens.get(tokenKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.accessToken;
+    }
+
+    // Concurrent tool calls share a single token request
+    let pending = this.pendingTokens.get(tokenKey);
+    if (!pending) {
+      pending = this.requestToken(scheme, credentials, scopes, cached?.refreshToken).finally(() => {
+        this.pendingTokens.delete(tokenKey);
+      });
+      this.pendingTokens.set(tokenKey, pending);
+    }
+
+    const token = await pending;
+    this.tokens.set(tokenKey, token);
+    return token.accessToken;
+  }
+
+  private async requestToken(
+    scheme: OpenAPIV3.OAuth2SecurityScheme,
+    credentials: AuthCredentials,
+    scopes: string[],
+    refreshToken?: string
+  ): Promise<CachedToken> {
+    if (refreshToken) {
+      try {
+        return await this.postTokenRequest(scheme, credentials, { grant_type: 'refresh_token', refresh_token: refreshToken });
+      } catch (error) {
+        this.logger.warn('OAuth2 token refresh failed, requesting a new token', { error: (error as Error).message });
+      }
+    }
+
+    const body: Record<string, string> = { grant_type: 'client_credentials' };
+    if (scopes.length > 0) {
+      body.scope = scopes.join(' ');
+    }
+    return this.postTokenRequest(scheme, credentials, body);
+  }
+
+  private async postTokenRequest(
+    scheme: OpenAPIV3.OAuth2SecurityScheme,
+    credentials: AuthCredentials,
+    body: Record<string, string>
+  ): Promise<CachedToken> {
+    const tokenUrl = this.getTokenUrl(scheme, credentials) as string;
+    const clientAuth = Buffer.from(
+      `${encodeURIComponent(credentials.clientId as string)}:${encodeURIComponent(credentials.clientSecret as string)}`
+    ).toString('base64');
+    SecretRedactor.register(clientAuth);
+
+    this.logger.debug('Requesting OAuth2 access token', { tokenUrl, grantType: body.grant_type });
+    const response = await this.httpClient.post(tokenUrl, new URLSearchParams(body).toString(), {
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${clientAuth}`,
+      },
+    });
+
+    const data = response.data || {};
+    if (!data.access_token) {
+      throw new Error(`OAuth2 token endpoint ${tokenUrl} returned no access_token`);
+    }
+
+    SecretRedactor.register(data.access_token);
+    SecretRedactor.register(data.refresh_token);
+
+    const lifetime = data.expires_in ? Number(data.expires_in) * 1000 : DEFAULT_TOKEN_LIFETIME;
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt: Date.now() + Math.max(lifetime - TOKEN_EXPIRY_SKEW, 0),
+    };
+  }
+
+  private getTokenUrl(scheme: OpenAPIV3.OAuth2SecurityScheme, credentials: AuthCredentials): string | undefined {
+    return credentials.tokenUrl || scheme.flows.clientCredentials?.tokenUrl;
+  }
+
+  private getScheme(schemeName: string): OpenAPIV3.SecuritySchemeObject | undefined {
+    const scheme = this.openApiLoader?.getSpec()?.components?.securitySchemes?.[schemeName];
+    if (!scheme || '$ref' in scheme) return undefined;
+    return scheme;
+  }
+
+  private getCredentials(schemeName: string): AuthCredentials | undefined {
+    return this.config.authCredentials[toAuthSchemeKey(schemeName)];
+  }
+
+  private registerSecrets(credentials: AuthCredentials): void {
+    SecretRedactor.register(credentials.apiKey);
+    SecretRedactor.register(credentials.password);
+    SecretRedactor.register(credentials.token);
+    SecretRedactor.register(credentials.clientSecret);
+  }
+}
@@ -3,87 +3,153 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   CallToolRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  CompleteRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
-import { getConfig, Logger, Cache, HttpClient } from './utils/index.js';
-import { OpenApiLoader, ToolExecutor } from './tools/index.js';
+import { getConfig, Logger, HttpClient, ValidationError, CircuitOpenError } from './utils/index.js';
+import {
+  ApiRegistry,
+  JsonSchemaBuilder,
+  MutationGuard,
+  ConfirmationRequiredError,
+  DryRunResult,
+  ResponseFormatter,
+  CacheTools,
+  SpecReloader,
+  ApiReloadResult,
+} from './tools/index.js';
 import { ResourceHandler } from './resources/resource-handler.js';
 import { PromptHandler } from './prompts/prompt-handler.js';
+import { HttpTransportServer } from './transports/http-transport.js';
 
 class PetstoreApiServer {
-  private readonly server: Server;
   private readonly logger = new Logger('PetstoreApiServer');
   private readonly config = getConfig();
-  private readonly cache = new Cache(this.config.cacheTTL);
   private readonly httpClient = new HttpClient(this.config);
-  private readonly openApiLoader: OpenApiLoader;
-  private readonly toolExecutor: ToolExecutor;
-  private readonly resourceHandler: ResourceHandler;
-  private readonly promptHandler = new PromptHandler();
+  private readonly apiRegistry: ApiRegistry;
+  private readonly cacheTools: CacheTools;
+  private readonly specReloader: SpecReloader;
+  private readonly resourceHandlers: ResourceHandler[];
+  private readonly promptHandlers: PromptHandler[];
+  private readonly responseFormatter = new ResponseFormatter(this.config.responseTokenBudget);
+  // One MCP server per connected client; stdio has exactly one, HTTP one per session
+  private readonly servers = new Set<Server>();
+  private httpTransport: HttpTransportServer | null = null;
 
   constructor() {
-    // Initialize core services
-    this.openApiLoader = new OpenApiLoader(this.config, this.httpClient, this.cache);
-    this.toolExecutor = new ToolExecutor(this.config, this.httpClient, this.cache);
-    this.resourceHandler = new ResourceHandler(this.openApiLoader);
+    // Initialize core services, one loader/executor pair per configured API
+    this.apiRegistry = new ApiRegistry(this.config, this.httpClient);
+    this.cacheTools = new CacheTools(this.apiRegistry);
+    this.specReloader = new SpecReloader(this.apiRegistry);
+    this.specReloader.onReload((results) => this.notifyListChanged(results));
+    this.resourceHandlers = this.apiRegistry
+      .getApis()
+      .map((api) => new ResourceHandler(api.openApiLoader, api.name));
+    this.promptHandlers = this.apiRegistry
+      .getApis()
+      .map((api) => new PromptHandler(api.openApiLoader, api.name));
 
-    // Initialize MCP server
-    this.server = new Server(
+    this.logConfiguration();
+  }
+
+  private createMcpServer(): Server {
+    const server = new Server(
       {
         name: 'petstore-api',
         version: '1.0.0',
       },
       {
         capabilities: {
-          tools: {},
-          resources: {},
-          prompts: {},
+          // All three lists change when a spec is reloaded
+          tools: { listChanged: true },
+          resources: { listChanged: true },
+          prompts: { listChanged: true },
+          // Prompt arguments and resource template variables
+          completions: {},
         },
       }
     );
 
-    this.setupHandlers();
-    this.logConfiguration();
+    this.setupHandlers(server);
+    this.servers.add(server);
+    server.onclose = () => {
+      this.servers.delete(server);
+    };
+
+    return server;
+  }
+
+  /**
+   * Tells every connected client to fetch the tool, resource and prompt lists again after a spec changed
+   */
+  private notifyListChanged(results: ApiReloadResult[]) {
+    const toolsChanged = results.some((result) => result.added.length + result.removed.length + result.modified.length > 0);
+
+    this.servers.forEach((server) => {
+      // Resource views and prompts are built from the spec, so they change with any spec change
+      const notifications = [server.sendResourceListChanged(), server.sendPromptListChanged()];
+      if (toolsChanged) {
+        notifications.push(server.sendToolListChanged());
+      }
+      Promise.all(notifications).catch((error) => {
+        this.logger.warn('Failed to send list_changed notification', { error: (error as Error).message });
+      });
+    });
   }
 
   private logConfiguration() {
     this.logger.info('Server configuration', {
-      apiBase: this.config.petstoreApiBase,
-      cacheTTL: this.config.cacheTTL,
+      apis: this.apiRegistry.getApis().map((api) => ({
+        name: api.name,
+        apiBase: api.config.apiBaseUrl || api.config.petstoreApiBase,
+        specSource: api.config.openApiSpecPath || api.config.openApiSpecUrl,
+        cacheTTL: api.config.cacheTTL,
+      })),
       maxRetries: this.config.maxRetries,
       requestTimeout: this.config.requestTimeout,
+      transport: this.config.transport,
     });
   }
 
-  private setupHandlers() {
+  private setupHandlers(server: Server) {
     // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       try {
-        await this.openApiLoader.ensureLoaded();
-        const apiTools = this.openApiLoader.getTools();
-
-        const tools = Array.from(apiTools.values()).map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-          inputSchema: {
-            type: 'object',
-            properties: tool.parameters.reduce((acc, param) => {
-              acc[param.name] = {
-                type: param.type,
-                description: param.description,
-              };
-              return acc;
-            }, {} as any),
-            required: tool.parameters
-              .filter((p) => p.required)
-              .map((p) => p.name),
-          },
-        }));
-
-        return { tools };
+        const apiTools = await this.apiRegistry.listTools();
+        const schemaBuilders = new Map<string | undefined, JsonSchemaBuilder>();
+
+        const tools = apiTools.map(({ name, api, tool }) => {
+          let schemaBuilder = schemaBuilders.get(api.name);
+          if (!schemaBuilder) {
+            schemaBuilder = new JsonSchemaBuilder(api.openApiLoader.getSpec() ?? undefined);
+            schemaBuilders.set(api.name, schemaBuilder);
+          }
+          const inputSchema = schemaBuilder.buildInputSchema(tool, api.config.argumentNaming);
+          Object.assign(inputSchema.properties, api.toolExecutor.getControlArguments(tool));
+
+          return {
+            name,
+            description: tool.description,
+            inputSchema,
+            outputSchema: this.responseFormatter.buildOutputSchema(tool, schemaBuilder),
+            annotations: MutationGuard.getAnnotations(tool),
+          };
+        });
+
+        // Built-in tools never shadow an API operation of the same name
+        const builtInTools = [...this.cacheTools.getTools(), ...this.specReloader.getTools()].filter((builtIn) => {
+          const shadowed = tools.some((tool) => tool.name === builtIn.name);
+          if (shadowed) {
+            this.logger.warn(`Built-in tool ${builtIn.name} is hidden by an API operation with the same name`);
+          }
+          return !shadowed;
+        });
+
+        return { tools: [...tools, ...builtInTools] };
       } catch (error) {
         this.logger.error('Failed to list tools', error as Error);
         return { tools: [] };
@@ -91,19 +157,25 @@ class PetstoreApiServer {
     });
 
     // Execute tools
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
-        await this.openApiLoader.ensureLoaded();
-        const tool = this.openApiLoader.getTool(name);
+        const resolved = await this.apiRegistry.resolveTool(name);
+
+        if (!resolved && this.cacheTools.handles(name)) {
+          return this.cacheTools.call(name, args);
+        }
+        if (!resolved && this.specReloader.handles(name)) {
+          return await this.specReloader.call(name, args);
+        }
 
-        if (!tool) {
+        if (!resolved) {
           return {
             content: [
               {
                 type: 'text',
-                text: `Error: Tool "${name}" not found`,
+                text: `Error: Tool "${name}" not found. The API may have changed; list the tools again or call reload_spec.`,
               },
             ],
             isError: true,
@@ -111,20 +183,69 @@ class PetstoreApiServer {
         }
 
         // Execute the tool
-        const response = await this.toolExecutor.execute(tool, args);
-
-        // Format the response
-        const responseText = JSON.stringify(response, null, 2);
+        const response = await resolved.api.toolExecutor.execute(resolved.tool, args);
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: responseText,
-            },
-          ],
-        };
+        // Format the response by content type, within the token budget
+        return this.responseFormatter.format(response);
       } catch (error) {
+        if (error instanceof ConfirmationRequiredError) {
+          // Not an error: the caller has to repeat the call with the token to go ahead
+          const confirmation = {
+            message: `${error.message}. Review the request below, then call ${name} again with the same arguments and "confirmationToken": "${error.token}".`,
+            confirmationToken: error.token,
+            expiresAt: new Date(error.expiresAt).toISOString(),
+            request: error.preview,
+          };
+          return {
+            content: [{ type: 'text', text: JSON.stringify(confirmation, null, 2) }],
+            structuredContent: confirmation,
+          };
+        }
+
+        if (error instanceof DryRunResult) {
+          const dryRun = {
+            message: error.message,
+            method: error.preview.method,
+            url: error.url,
+            query: error.preview.query,
+            headers: error.preview.headers,
+            body: error.body,
+            curl: error.curl,
+            httpie: error.httpie,
+          };
+          // Tools with an outputSchema must always return structuredContent; the schema allows extra keys
+          return {
+            content: [{ type: 'text', text: JSON.stringify(dryRun, null, 2) }],
+            structuredContent: dryRun,
+          };
+        }
+
+        if (error instanceof ValidationError) {
+          // Report every violation so the caller can fix all arguments in one go
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: error.message, violations: error.issues }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        if (error instanceof CircuitOpenError) {
+          // Fail fast instead of waiting on a host that keeps failing; the caller can try again later
+          const unavailable = {
+            error: error.message,
+            host: error.host,
+            retryAt: new Date(error.retryAt).toISOString(),
+          };
+          return {
+            content: [{ type: 'text', text: JSON.stringify(unavailable, null, 2) }],
+            isError: true,
+          };
+        }
+
         this.logger.error(`Failed to execute tool ${name}`, error as Error);
         return {
           content: [
@@ -139,9 +260,17 @@ class PetstoreApiServer {
     });
 
     // List resources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       try {
-        const resources = await this.resourceHandler.listResources();
+        // A failing API only hides its own resources
+        const results = await Promise.allSettled(this.resourceHandlers.map((handler) => handler.listResources()));
+        const resources = results.flatMap((result) => {
+          if (result.status === 'rejected') {
+            this.logger.error('Failed to list resources', result.reason as Error);
+            return [];
+          }
+          return result.value;
+        });
         return { resources };
       } catch (error) {
         this.logger.error('Failed to list resources', error as Error);
@@ -149,12 +278,27 @@ class PetstoreApiServer {
       }
     });
 
+    // List resource templates
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      const resourceTemplates = this.resourceHandlers.flatMap((handler) => handler.listResourceTemplates());
+      return { resourceTemplates };
+    });
+
     // Read resources
-    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const { uri } = request.params;
 
       try {
-        const resource = await this.resourceHandler.readResource(uri);
+        if (this.responseFormatter.handles(uri)) {
+          return { contents: [this.responseFormatter.readResource(uri)] };
+        }
+
+        const handler = this.resourceHandlers.find((candidate) => candidate.handles(uri));
+        if (!handler) {
+          throw new Error(`Resource not found: ${uri}`);
+        }
+
+        const resource = await handler.readResource(uri);
         return {
           contents: [resource],
         };
@@ -165,9 +309,17 @@ class PetstoreApiServer {
     });
 
     // List prompts
-    this.server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
       try {
-        const prompts = this.promptHandler.listPrompts();
+        // Like resources, a failing API only hides its own prompts
+        const results = await Promise.allSettled(this.promptHandlers.map((handler) => handler.listPrompts()));
+        const prompts = results.flatMap((result) => {
+          if (result.status === 'rejected') {
+            this.logger.error('Failed to list prompts', result.reason as Error);
+            return [];
+          }
+          return result.value;
+        });
         return { prompts };
       } catch (error) {
         this.logger.error('Failed to list prompts', error as Error);
@@ -176,11 +328,16 @@ class PetstoreApiServer {
     });
 
     // Get prompts
-    this.server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
       const { name, arguments: args } = request.params;
 
       try {
-        const prompt = this.promptHandler.getPrompt(name, args);
+        const handler = this.promptHandlers.find((candidate) => candidate.handles(name));
+        if (!handler) {
+          throw new Error(`Prompt not found: ${name}`);
+        }
+
+        const prompt = await handler.getPrompt(name, args);
         return prompt;
       } catch (error) {
         this.logger.error(`Failed to get prompt ${name}`, error as Error);
@@ -188,31 +345,67 @@ class PetstoreApiServer {
       }
     });
 
+    // Complete prompt arguments and resource template variables
+    server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+      const empty = { completion: { values: [], total: 0, hasMore: false } };
+
+      try {
+        if (ref.type === 'ref/resource') {
+          const handler = this.resourceHandlers.find((candidate) => candidate.handles(ref.uri));
+          return handler ? { completion: await handler.complete(ref.uri, argument.name, argument.value) } : empty;
+        }
+        const handler = this.promptHandlers.find((candidate) => candidate.handles(ref.name));
+        if (!handler) {
+          return empty;
+        }
+        return { completion: await handler.complete(ref.name, argument.name, argument.value) };
+      } catch (error) {
+        // Completion is a typing aid; a failure must not surface as an error in the client
+        this.logger.error(`Failed to complete argument ${argument.name}`, error as Error);
+        return empty;
+      }
+    });
+
     // Handle server errors
-    this.server.onerror = (error) => {
+    server.onerror = (error) => {
       this.logger.error('Server error', error);
     };
   }
 
   async start() {
     try {
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-
-      this.logger.info('Petstore API MCP server started successfully!!!');
-      this.logger.info('Petstore API MCP server started successfully!!!');
-      
-      // Pre-load the OpenAPI spec in the background
-      this.openApiLoader.loadSpec().catch((error) => {
-        console.log('Failed to pre-load OpenAPI spec', error);
-        
-        this.logger.error('Failed to pre-load OpenAPI spec', error);
+      if (this.config.transport === 'http') {
+        this.httpTransport = new HttpTransportServer(
+          this.config,
+          () => this.createMcpServer(),
+          () => ({ apis: this.apiRegistry.getApis().map((api) => ({ name: api.name, loaded: !!api.openApiLoader.getSpec() })) })
+        );
+        await this.httpTransport.start();
+      } else {
+        await this.createMcpServer().connect(new StdioServerTransport());
+      }
+
+      this.logger.info('Petstore API MCP server started successfully', { transport: this.config.transport });
+
+      // Pre-load the OpenAPI specs in the background; failures are logged per API
+      this.apiRegistry.ensureLoaded().catch((error) => {
+        this.logger.error('Failed to pre-load OpenAPI specs', error);
       });
+      this.specReloader.start();
     } catch (error) {
       this.logger.error('Failed to start server', error as Error);
       throw error;
     }
   }
+
+  async stop() {
+    await this.httpTransport?.close();
+    await Promise.all(Array.from(this.servers).map((server) => server.close()));
+    this.specReloader.dispose();
+    this.apiRegistry.dispose();
+    this.httpClient.dispose();
+  }
 }
 
 // Start the server
@@ -221,3 +414,9 @@ server.start().catch((error) => {
   console.error('Fatal error:', error);
   process.exit(1);
 });
+
+['SIGINT', 'SIGTERM'].forEach((signal) => {
+  process.once(signal, () => {
+    server.stop().finally(() => process.exit(0));
+  });
+});
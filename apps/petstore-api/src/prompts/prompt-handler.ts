@@ -1,3 +1,22 @@
+import { ApiTool } from '../types/index.js';
+import {
+  Completion,
+  CrudResource,
+  OpenApiLoader,
+  SpecExplorer,
+  TOOL_NAMESPACE_SEPARATOR,
+  ToolArguments,
+} from '../tools/index.js';
+import { SecretRedactor } from '../utils/index.js';
+
+// Keeps prompts for broad endpoints such as `/` within a reasonable context size
+const MAX_PROMPT_OPERATIONS = 20;
+const MAX_PROMPT_SCHEMAS = 10;
+const MAX_CRUD_RESOURCES = 5;
+
+const PROMPT_NAMES = ['api-explorer', 'generate-client', 'test-scenario', 'api-documentation'];
+const SCENARIOS = ['crud-operations', 'error-handling', 'performance'];
+
 export interface Prompt {
   name: string;
   description: string;
@@ -16,23 +35,59 @@ export interface PromptMessage {
   };
 }
 
+// A type alias rather than an interface, so it is assignable to the SDK's open-ended result type
+export type PromptResult = {
+  description: string;
+  messages: PromptMessage[];
+};
+
+/**
+ * Prompts built from the loaded spec: the operations and schemas of an endpoint, CRUD scenarios over its actual
+ * resources, and completion of endpoint and operation arguments
+ */
 export class PromptHandler {
-  listPrompts(): Prompt[] {
-    return [
+  private readonly openApiLoader: OpenApiLoader;
+  private readonly explorer: SpecExplorer;
+  private readonly apiName?: string;
+  private readonly namePrefix: string;
+
+  /**
+   * @param apiName Namespaces prompt names in multi-API mode (inventory__api-explorer), like tool names
+   */
+  constructor(openApiLoader: OpenApiLoader, apiName?: string) {
+    this.openApiLoader = openApiLoader;
+    this.explorer = new SpecExplorer(openApiLoader);
+    this.apiName = apiName;
+    this.namePrefix = apiName ? `${apiName}${TOOL_NAMESPACE_SEPARATOR}` : '';
+  }
+
+  handles(name: string): boolean {
+    return name.startsWith(this.namePrefix) && PROMPT_NAMES.includes(name.slice(this.namePrefix.length));
+  }
+
+  async listPrompts(): Promise<Prompt[]> {
+    await this.openApiLoader.ensureLoaded();
+
+    const endpoints = this.explorer.getEndpoints().slice(0, 2);
+    const endpointExample = endpoints.length > 0 ? ` (e.g., ${endpoints.join(', ')})` : '';
+    const operationExample = this.explorer.getTools()[0]?.name;
+    const api = this.apiName ? ` of the ${this.apiName} API` : '';
+
+    const prompts: Prompt[] = [
       {
         name: 'api-explorer',
-        description: 'Explore and test API endpoints interactively',
+        description: `Explore and test API endpoints interactively${api}`,
         arguments: [
           {
             name: 'endpoint',
-            description: 'The API endpoint to explore (e.g., /pet, /store/order)',
+            description: `The API endpoint to explore${endpointExample}`,
             required: false,
           },
         ],
       },
       {
         name: 'generate-client',
-        description: 'Generate code to interact with the API',
+        description: `Generate code to interact with the API${api}`,
         arguments: [
           {
             name: 'language',
@@ -41,25 +96,25 @@ export class PromptHandler {
           },
           {
             name: 'operation',
-            description: 'Specific operation to generate code for',
+            description: `Specific operation to generate code for${operationExample ? ` (e.g., ${operationExample})` : ''}`,
             required: false,
           },
         ],
       },
       {
         name: 'test-scenario',
-        description: 'Create and execute test scenarios for the API',
+        description: `Create and execute test scenarios for the API${api}`,
         arguments: [
           {
             name: 'scenario',
-            description: 'Type of scenario (e.g., crud-operations, error-handling, performance)',
+            description: `Type of scenario (${SCENARIOS.join(', ')})`,
             required: true,
           },
         ],
       },
       {
         name: 'api-documentation',
-        description: 'Generate human-readable documentation for API endpoints',
+        description: `Generate human-readable documentation for API endpoints${api}`,
         arguments: [
           {
             name: 'format',
@@ -68,85 +123,100 @@ export class PromptHandler {
           },
           {
             name: 'endpoint',
-            description: 'Specific endpoint to document (optional)',
+            description: `Specific endpoint to document${endpointExample}`,
             required: false,
           },
         ],
       },
     ];
+
+    return prompts.map((prompt) => ({ ...prompt, name: `${this.namePrefix}${prompt.name}` }));
   }
 
-  getPrompt(name: string, args?: Record<string, any>): {
-    description: string;
-    messages: PromptMessage[];
-  } {
-    switch (name) {
+  async getPrompt(name: string, args?: Record<string, any>): Promise<PromptResult> {
+    if (!this.handles(name)) {
+      throw new Error(`Prompt not found: ${name}`);
+    }
+    await this.openApiLoader.ensureLoaded();
+
+    switch (name.slice(this.namePrefix.length)) {
       case 'api-explorer':
         return this.getApiExplorerPrompt(args);
-      
+
       case 'generate-client':
         return this.getGenerateClientPrompt(args);
-      
+
       case 'test-scenario':
         return this.getTestScenarioPrompt(args);
-      
-      case 'api-documentation':
+
+      default:
         return this.getApiDocumentationPrompt(args);
-      
+    }
+  }
+
+  /**
+   * Values for the `endpoint`, `operation` and `scenario` arguments of a prompt
+   */
+  async complete(name: string, argument: string, value: string): Promise<Completion> {
+    if (!this.handles(name)) {
+      return SpecExplorer.complete([], value);
+    }
+    await this.openApiLoader.ensureLoaded();
+
+    switch (argument) {
+      case 'endpoint':
+        return SpecExplorer.complete(this.explorer.getEndpoints(), value);
+      case 'operation':
+        return SpecExplorer.complete(
+          this.explorer.getTools().map((tool) => tool.name),
+          value.startsWith(this.namePrefix) ? value.slice(this.namePrefix.length) : value
+        );
+      case 'scenario':
+        return SpecExplorer.complete(SCENARIOS, value);
       default:
-        throw new Error(`Prompt not found: ${name}`);
+        return SpecExplorer.complete([], value);
     }
   }
 
-  private getApiExplorerPrompt(args?: Record<string, any>): {
-    description: string;
-    messages: PromptMessage[];
-  } {
+  private getApiExplorerPrompt(args?: Record<string, any>): PromptResult {
     const endpoint = args?.endpoint;
     const text = endpoint
-      ? `Help me explore and test the ${endpoint} endpoint. Show me:
+      ? `Help me explore and test the ${endpoint} endpoint of ${this.getApiLabel()}. Show me:
 1. What operations are available for this endpoint
 2. What parameters each operation requires
 3. Example requests and expected responses
 4. Help me make test requests with sample data
 
-Let's start by listing the available operations for ${endpoint}.`
-      : `Help me explore the Petstore API. Please:
+${this.describeEndpoint(endpoint)}`
+      : `Help me explore ${this.getApiLabel()}. Please:
 1. Show me the main categories of endpoints available
 2. List the most commonly used operations
 3. Guide me through making my first API request
 4. Explain how to handle authentication if required
 
+${this.describeOverview()}
+
 What would you like to explore first?`;
 
-    return {
-      description: 'Interactive API exploration',
-      messages: [
-        {
-          role: 'user',
-          content: { type: 'text', text },
-        },
-      ],
-    };
+    return this.toResult('Interactive API exploration', text);
   }
 
-  private getGenerateClientPrompt(args?: Record<string, any>): {
-    description: string;
-    messages: PromptMessage[];
-  } {
+  private getGenerateClientPrompt(args?: Record<string, any>): PromptResult {
     const language = args?.language || 'javascript';
-    const operation = args?.operation;
-    
+    const operation = args?.operation ? this.findOperation(args.operation) : undefined;
+
     const text = operation
-      ? `Generate ${language} code to call the ${operation} operation from the Petstore API. Please include:
+      ? `Generate ${language} code to call the ${operation.operationId || operation.name} operation of ${this.getApiLabel()}. Please include:
 1. Proper error handling
 2. Type definitions (if applicable for the language)
 3. Example usage with sample data
 4. Any necessary imports or dependencies
 5. Comments explaining the code
 
-Make the code production-ready and follow best practices for ${language}.`
-      : `Generate a complete ${language} client library for the Petstore API. Include:
+Make the code production-ready and follow best practices for ${language}.
+
+${this.describeOperations([operation])}`
+      : `Generate a complete ${language} client library for ${this.getApiLabel()}. Include:
 1. A main client class with methods for all available operations
 2. Proper error handling and retry logic
 3. Type definitions (if applicable)
@@ -154,77 +224,51 @@ Make the code production-ready and follow best practices for ${language}.`
 5. Comprehensive example usage
 6. Installation instructions if any dependencies are needed
 
-Make it production-ready and follow ${language} best practices.`;
+Make it production-ready and follow ${language} best practices.
 
-    return {
-      description: 'Generate API client code',
-      messages: [
-        {
-          role: 'user',
-          content: { type: 'text', text },
-        },
-      ],
-    };
+${this.describeOverview()}`;
+
+    return this.toResult('Generate API client code', text);
   }
 
-  private getTestScenarioPrompt(args?: Record<string, any>): {
-    description: string;
-    messages: PromptMessage[];
-  } {
-    const scenario = args?.scenario || 'crud-operations';
-    
-    const scenarioPrompts: Record<string, string> = {
-      'crud-operations': `Create a comprehensive test scenario for CRUD operations on the Petstore API:
-1. Create a new pet with all required fields
-2. Retrieve the created pet by ID
-3. Update the pet's information
-4. List pets by status
-5. Delete the pet
-6. Verify the pet was deleted
-
-For each step, show the request, expected response, and any assertions to validate the operation.`,
-      
-      'error-handling': `Create test scenarios to verify error handling in the Petstore API:
+  private getTestScenarioPrompt(args?: Record<string, any>): PromptResult {
+    const scenario = SCENARIOS.includes(args?.scenario) ? args?.scenario : 'crud-operations';
+
+    const scenarioPrompts: Record<string, () => string> = {
+      'crud-operations': () => this.describeCrudScenario(),
+
+      'error-handling': () => `Create test scenarios to verify error handling in ${this.getApiLabel()}:
 1. Test invalid input data (missing required fields, wrong data types)
 2. Test non-existent resource access (404 errors)
 3. Test invalid HTTP methods
 4. Test malformed requests
 5. Test boundary conditions (very long strings, negative numbers, etc.)
 
-Show how the API handles each error case and what clients should expect.`,
-      
-      'performance': `Create performance test scenarios for the Petstore API:
+Show how the API handles each error case and what clients should expect.
+
+${this.describeOverview()}`,
+
+      'performance': () => `Create performance test scenarios for ${this.getApiLabel()}:
 1. Test response times for different endpoints
 2. Test handling of large payloads
 3. Test pagination with large datasets
 4. Test concurrent requests
 5. Identify potential bottlenecks
 
-Provide recommendations for optimal API usage patterns.`,
-    };
+Provide recommendations for optimal API usage patterns.
 
-    const text = scenarioPrompts[scenario] || scenarioPrompts['crud-operations'];
-
-    return {
-      description: 'Create and execute test scenarios',
-      messages: [
-        {
-          role: 'user',
-          content: { type: 'text', text },
-        },
-      ],
+${this.describeOverview()}`,
     };
+
+    return this.toResult('Create and execute test scenarios', scenarioPrompts[scenario]());
   }
 
-  private getApiDocumentationPrompt(args?: Record<string, any>): {
-    description: string;
-    messages: PromptMessage[];
-  } {
+  private getApiDocumentationPrompt(args?: Record<string, any>): PromptResult {
     const format = args?.format || 'markdown';
     const endpoint = args?.endpoint;
-    
+
     const text = endpoint
-      ? `Generate ${format} documentation for the ${endpoint} endpoint. Include:
+      ? `Generate ${format} documentation for the ${endpoint} endpoint of ${this.getApiLabel()}. Include:
 1. Endpoint description and purpose
 2. HTTP method(s) supported
 3. Request parameters (path, query, headers, body)
@@ -232,8 +276,10 @@ Provide recommendations for optimal API usage patterns.`,
 5. Error codes and their meanings
 6. Usage notes and best practices
 
-Make it clear and developer-friendly.`
-      : `Generate comprehensive ${format} documentation for the entire Petstore API. Structure it with:
+Make it clear and developer-friendly.
+
+${this.describeEndpoint(endpoint)}`
+      : `Generate comprehensive ${format} documentation for ${this.getApiLabel()}. Structure it with:
 1. API Overview and base URL
 2. Authentication (if applicable)
 3. Common headers and conventions
@@ -244,10 +290,175 @@ Make it clear and developer-friendly.`
 8. Example workflows
 9. Rate limiting and best practices
 
-Make it suitable for developers who are new to the API.`;
+Make it suitable for developers who are new to the API.
+
+${this.describeOverview()}`;
+
+    return this.toResult('Generate API documentation', text);
+  }
+
+  /**
+   * Steps per resource that has create, read, update or delete operations, using the tools that perform them
+   */
+  private describeCrudScenario(): string {
+    const resources = this.explorer.getCrudResources();
+    if (resources.length === 0) {
+      return `Create a test scenario for CRUD operations on ${this.getApiLabel()}. The specification has no resource \
+with create, read, update and delete operations, so pick the operations that change data and verify each change \
+with a read.
+
+${this.describeOverview()}`;
+    }
+
+    const sections = resources.slice(0, MAX_CRUD_RESOURCES).map((resource) => {
+      const steps = this.getCrudSteps(resource).map((step, index) => `${index + 1}. ${step}`);
+      return `### ${resource.path}\n${steps.join('\n')}`;
+    });
+    const tools = resources
+      .slice(0, MAX_CRUD_RESOURCES)
+      .flatMap((resource) => [resource.create, resource.read, resource.update, resource.list, resource.delete])
+      .filter((tool): tool is ApiTool => !!tool);
+
+    return `Create a comprehensive test scenario for CRUD operations on ${this.getApiLabel()}, resource by resource:
+
+${sections.join('\n\n')}
+
+For each step, show the request, expected response, and any assertions to validate the operation.
+
+${this.describeOperations(tools)}`;
+  }
+
+  private getCrudSteps(resource: CrudResource): string[] {
+    const steps: string[] = [];
+    if (resource.create) steps.push(`Create a new item with all required fields using ${this.describeTool(resource.create)}`);
+    if (resource.read) steps.push(`Retrieve the created item by its ID using ${this.describeTool(resource.read)}`);
+    if (resource.update) steps.push(`Update the item using ${this.describeTool(resource.update)}`);
+    if (resource.list) steps.push(`List items and check the item is included using ${this.describeTool(resource.list)}`);
+    if (resource.delete) {
+      steps.push(`Delete the item using ${this.describeTool(resource.delete)}`);
+      if (resource.read) steps.push(`Verify the item was deleted using ${this.describeTool(resource.read)}`);
+    }
+    return steps;
+  }
+
+  private describeEndpoint(endpoint: string): string {
+    const operations = this.explorer.findOperations(endpoint);
+    if (operations.length === 0) {
+      return `The specification has no operations under ${endpoint}. Available endpoints:\n${this.explorer
+        .getEndpoints()
+        .join('\n')}`;
+    }
+    return this.describeOperations(operations);
+  }
+
+  /**
+   * One line per operation, for prompts that cover the whole API
+   */
+  private describeOverview(): string {
+    const tools = this.explorer.getTools();
+    const lines = tools
+      .slice(0, MAX_PROMPT_OPERATIONS)
+      .map((tool) => `- ${this.describeTool(tool)}: ${tool.description.split('\n')[0]}`);
+    if (tools.length > lines.length) {
+      lines.push(`${tools.length - lines.length} more operations are not shown.`);
+    }
+    return `The API has ${tools.length} operations:\n${lines.join('\n')}`;
+  }
+
+  /**
+   * Parameters and responses of each operation, followed by the component schemas they use
+   */
+  private describeOperations(operations: ApiTool[]): string {
+    const listed = operations.slice(0, MAX_PROMPT_OPERATIONS);
+    const sections = listed.map((tool) => this.describeOperation(tool));
+    if (operations.length > listed.length) {
+      sections.push(`${operations.length - listed.length} more operations are not shown.`);
+    }
+
+    const schemaNames = Array.from(new Set(listed.flatMap((tool) => this.explorer.getReferencedSchemas(tool))));
+    const schemas = schemaNames.slice(0, MAX_PROMPT_SCHEMAS).map((name) => {
+      const schema = SecretRedactor.redact(JSON.stringify(this.explorer.getSchema(name), null, 2));
+      return `### ${name}\n\`\`\`json\n${schema}\n\`\`\``;
+    });
+    if (schemaNames.length > schemas.length) {
+      schemas.push(`${schemaNames.length - schemas.length} more schemas are not shown.`);
+    }
+
+    return [
+      `## Operations\n\n${sections.join('\n\n')}`,
+      schemas.length > 0 ? `## Schemas\n\n${schemas.join('\n\n')}` : undefined,
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private describeOperation(tool: ApiTool): string {
+    const lines = [`### ${tool.method.toUpperCase()} ${tool.path} (tool \`${this.namePrefix}${tool.name}\`)`];
+    lines.push(tool.description.split('\n')[0]);
+
+    if (tool.parameters.length > 0) {
+      lines.push('Parameters:');
+      tool.parameters.forEach((param) => {
+        const type = this.explorer.getSchemaName(param.schema) || param.type;
+        const details = [param.location, type, param.required ? 'required' : 'optional'].join(', ');
+        lines.push(`- ${ToolArguments.getName(param)} (${details})${param.description ? `: ${param.description}` : ''}`);
+      });
+    }
+
+    const bodySchemas = this.describeContent(tool.requestBody?.content);
+    if (bodySchemas) {
+      lines.push(`Request body: ${bodySchemas}`);
+    }
 
+    const responses = Object.entries(tool.responses || {}).map(([code, response]: [string, any]) => {
+      const schemas = this.describeContent(response?.content);
+      return `- ${code}${response?.description ? ` ${response.description}` : ''}${schemas ? ` (${schemas})` : ''}`;
+    });
+    if (responses.length > 0) {
+      lines.push('Responses:', ...responses);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * `Pet as application/json, application/xml`, naming the schema of the first media type
+   */
+  private describeContent(content: Record<string, { schema?: unknown }> | undefined): string | undefined {
+    const mediaTypes = Object.keys(content || {});
+    if (mediaTypes.length === 0) return undefined;
+
+    const schema = content?.[mediaTypes[0]]?.schema as { type?: string; items?: unknown } | undefined;
+    const itemName = schema?.type === 'array' ? this.explorer.getSchemaName(schema.items) : undefined;
+    const name = this.explorer.getSchemaName(schema) || (itemName ? `array of ${itemName}` : schema?.type);
+    return `${name ? `${name} as ` : ''}${mediaTypes.join(', ')}`;
+  }
+
+  private describeTool(tool: ApiTool): string {
+    return `\`${this.namePrefix}${tool.name}\` (${tool.method.toUpperCase()} ${tool.path})`;
+  }
+
+  /**
+   * Accepts tool names with or without the API namespace, and operationIds
+   */
+  private findOperation(name: string): ApiTool {
+    const operation = this.explorer.findOperation(
+      name.startsWith(this.namePrefix) ? name.slice(this.namePrefix.length) : name
+    );
+    if (!operation) {
+      throw new Error(`Unknown operation "${name}"`);
+    }
+    return operation;
+  }
+
+  private getApiLabel(): string {
+    const title = this.openApiLoader.getSpec()?.info?.title?.trim();
+    if (!title) return this.apiName ? `the ${this.apiName} API` : 'the API';
+    return /\bapi\b/i.test(title) ? `the ${title}` : `the ${title} API`;
+  }
+
+  private toResult(description: string, text: string): PromptResult {
     return {
-      description: 'Generate API documentation',
+      description,
       messages: [
         {
           role: 'user',
@@ -256,4 +467,4 @@ Make it suitable for developers who are new to the API.`;
       ],
     };
   }
-} 
\ No newline at end of file
+}
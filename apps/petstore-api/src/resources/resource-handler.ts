@@ -1,4 +1,32 @@
-import { OpenApiLoader } from '../tools/index.js';
+import { ApiTool } from '../types/index.js';
+import { Completion, OpenApiLoader, SpecExplorer, TOOL_NAMESPACE_SEPARATOR, ToolArguments } from '../tools/index.js';
+import { SecretRedactor } from '../utils/index.js';
+
+// Resource templates by their first URI segment; the variable is the rest of the URI, percent-encoded
+const TEMPLATES = {
+  operations: {
+    variable: 'operationId',
+    name: 'Operation',
+    description: 'One operation by operationId or tool name: dereferenced parameters, request body, responses and examples',
+  },
+  schemas: {
+    variable: 'schemaName',
+    name: 'Data Schema',
+    description: 'One component schema as JSON Schema with an example and the operations using it',
+  },
+  tags: {
+    variable: 'tag',
+    name: 'Tag',
+    description: 'The operations of one tag, with links to their operation resources',
+  },
+  paths: {
+    variable: 'path',
+    name: 'Path',
+    description: 'Every operation of one path, e.g. openapi://paths/%2Fpet%2F%7BpetId%7D for /pet/{petId}',
+  },
+};
+
+type TemplateKind = keyof typeof TEMPLATES;
 
 export interface Resource {
   uri: string;
@@ -7,17 +35,71 @@ export interface Resource {
   mimeType: string;
 }
 
+export interface ResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
 export class ResourceHandler {
   private readonly openApiLoader: OpenApiLoader;
+  private readonly explorer: SpecExplorer;
+  private readonly apiName?: string;
+  private readonly uriPrefix: string;
 
-  constructor(openApiLoader: OpenApiLoader) {
+  /**
+   * @param apiName Namespaces resource URIs in multi-API mode (openapi://inventory/specification)
+   */
+  constructor(openApiLoader: OpenApiLoader, apiName?: string) {
     this.openApiLoader = openApiLoader;
+    this.explorer = new SpecExplorer(openApiLoader);
+    this.apiName = apiName;
+    this.uriPrefix = apiName ? `openapi://${apiName}/` : 'openapi://';
+  }
+
+  handles(uri: string): boolean {
+    if (!uri.startsWith(this.uriPrefix)) return false;
+    // In single-API mode there are no namespaces, so any openapi:// URI is ours
+    const relative = uri.slice(this.uriPrefix.length);
+    return !!this.apiName || !relative.includes('/') || !!this.getTemplateKind(relative);
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return Object.entries(TEMPLATES).map(([kind, template]) => ({
+      uriTemplate: `${this.uriPrefix}${kind}/{${template.variable}}`,
+      name: this.apiName ? `${template.name} (${this.apiName})` : template.name,
+      description: template.description,
+      mimeType: 'application/json',
+    }));
+  }
+
+  /**
+   * Values for the variable of a resource template, taken from the spec
+   */
+  async complete(uriTemplate: string, argument: string, value: string): Promise<Completion> {
+    const kind = this.handles(uriTemplate) ? this.getTemplateKind(uriTemplate.slice(this.uriPrefix.length)) : undefined;
+    if (!kind || TEMPLATES[kind].variable !== argument) {
+      return SpecExplorer.complete([], value);
+    }
+    await this.openApiLoader.ensureLoaded();
+
+    switch (kind) {
+      case 'operations':
+        return SpecExplorer.complete(this.explorer.getTools().map((tool) => this.getOperationId(tool)), value);
+      case 'schemas':
+        return SpecExplorer.complete(this.explorer.getSchemaNames(), value);
+      case 'tags':
+        return SpecExplorer.complete(this.explorer.getTags(), value);
+      case 'paths':
+        return SpecExplorer.complete(this.explorer.getEndpoints(), value);
+    }
   }
 
   async listResources(): Promise<Resource[]> {
     await this.openApiLoader.ensureLoaded();
 
-    return [
+    const resources: Resource[] = [
       {
         uri: 'openapi://specification',
         name: 'OpenAPI Specification',
@@ -43,12 +125,41 @@ export class ResourceHandler {
         mimeType: 'application/json',
       },
     ];
+
+    if (!this.apiName) {
+      return resources;
+    }
+
+    return resources.map((resource) => ({
+      ...resource,
+      uri: resource.uri.replace('openapi://', this.uriPrefix),
+      name: `${resource.name} (${this.apiName})`,
+      description: resource.description.replace('the Petstore API', `the ${this.apiName} API`),
+    }));
   }
 
   async readResource(uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
     await this.openApiLoader.ensureLoaded();
 
-    switch (uri) {
+    if (!this.handles(uri)) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const relative = uri.slice(this.uriPrefix.length);
+    const kind = this.getTemplateKind(relative);
+    if (kind) {
+      const view = this.readTemplate(kind, decodeURIComponent(relative.slice(kind.length + 1)));
+      if (!view) {
+        throw new Error(`Resource not found: ${uri}`);
+      }
+      return {
+        uri,
+        mimeType: 'application/json',
+        text: SecretRedactor.redact(JSON.stringify(view, null, 2)),
+      };
+    }
+
+    switch (uri.replace(this.uriPrefix, 'openapi://')) {
       case 'openapi://specification': {
         const spec = this.openApiLoader.getSpec();
         if (!spec) {
@@ -57,14 +168,15 @@ export class ResourceHandler {
         return {
           uri,
           mimeType: 'application/json',
-          text: JSON.stringify(spec, null, 2),
+          text: SecretRedactor.redact(JSON.stringify(spec, null, 2)),
         };
       }
 
       case 'openapi://endpoints': {
         const tools = this.openApiLoader.getTools();
         const endpoints = Array.from(tools.values())
-          .map((tool) => `${tool.method.toUpperCase()} ${tool.path} - ${tool.description}`)
+          // Only the headline; the full description is in openapi://tools
+          .map((tool) => `${tool.method.toUpperCase()} ${tool.path} - ${tool.description.split('\n')[0]}`)
           .sort()
           .join('\n');
         
@@ -81,7 +193,7 @@ export class ResourceHandler {
         return {
           uri,
           mimeType: 'application/json',
-          text: JSON.stringify(schemas, null, 2),
+          text: SecretRedactor.redact(JSON.stringify(schemas, null, 2)),
         };
       }
 
@@ -92,6 +204,7 @@ export class ResourceHandler {
           description: tool.description,
           method: tool.method,
           path: tool.path,
+          tags: tool.tags,
           parameters: tool.parameters.map(p => ({
             name: p.name,
             type: p.type,
@@ -112,4 +225,104 @@ export class ResourceHandler {
         throw new Error(`Resource not found: ${uri}`);
     }
   }
+
+  private readTemplate(kind: TemplateKind, value: string): object | undefined {
+    switch (kind) {
+      case 'operations': {
+        const tool = this.explorer.findOperation(value);
+        return tool && this.describeOperation(tool);
+      }
+
+      case 'schemas': {
+        const schema = this.openApiLoader.getSpec()?.components?.schemas?.[value];
+        if (!schema) return undefined;
+        return {
+          name: value,
+          schema: this.explorer.toJsonSchema(schema),
+          example: SpecExplorer.buildExample(schema),
+          usedBy: this.explorer.getSchemaUsage(value).map((tool) => this.describeOperationLink(tool)),
+        };
+      }
+
+      case 'tags': {
+        const operations = this.explorer.getTools().filter((tool) => tool.tags?.includes(value));
+        if (operations.length === 0 && !this.explorer.getTags().includes(value)) return undefined;
+        return {
+          tag: value,
+          description: this.explorer.getTagDescription(value),
+          operations: operations.map((tool) => this.describeOperationLink(tool)),
+        };
+      }
+
+      case 'paths': {
+        const path = value.startsWith('/') ? value : `/${value}`;
+        const operations = this.explorer.getTools().filter((tool) => tool.path === path);
+        if (operations.length === 0) return undefined;
+        return { path, operations: operations.map((tool) => this.describeOperation(tool)) };
+      }
+    }
+  }
+
+  /**
+   * Everything needed to call one operation, with schemas inlined and an example for each value
+   */
+  private describeOperation(tool: ApiTool): object {
+    const describeContent = (content: Record<string, any> | undefined) =>
+      content &&
+      Object.fromEntries(
+        Object.entries(content).map(([mediaType, media]) => [
+          mediaType,
+          { schema: media?.schema && this.explorer.toJsonSchema(media.schema), example: this.explorer.getExample(media) },
+        ])
+      );
+
+    return {
+      ...this.describeOperationLink(tool),
+      description: tool.description,
+      tags: tool.tags,
+      parameters: tool.parameters
+        .filter((param) => param.location !== 'body')
+        .map((param) => ({
+          name: param.name,
+          argument: ToolArguments.getName(param),
+          in: param.location,
+          required: param.required,
+          description: param.description,
+          schema: param.schema ? this.explorer.toJsonSchema(param.schema) : { type: param.type },
+          example: SpecExplorer.buildExample(param.schema),
+        })),
+      requestBody: tool.requestBody && {
+        required: !!tool.requestBody.required,
+        content: describeContent(tool.requestBody.content),
+      },
+      responses: Object.fromEntries(
+        Object.entries(tool.responses || {}).map(([code, response]: [string, any]) => [
+          code,
+          { description: response?.description, content: describeContent(response?.content) },
+        ])
+      ),
+      security: tool.security,
+    };
+  }
+
+  private describeOperationLink(tool: ApiTool) {
+    const operationId = this.getOperationId(tool);
+    return {
+      operationId,
+      tool: this.apiName ? `${this.apiName}${TOOL_NAMESPACE_SEPARATOR}${tool.name}` : tool.name,
+      method: tool.method.toUpperCase(),
+      path: tool.path,
+      summary: tool.description.split('\n')[0],
+      uri: `${this.uriPrefix}operations/${encodeURIComponent(operationId)}`,
+    };
+  }
+
+  private getOperationId(tool: ApiTool): string {
+    return tool.operationId || tool.name;
+  }
+
+  private getTemplateKind(relative: string): TemplateKind | undefined {
+    const kind = relative.split('/')[0];
+    return Object.keys(TEMPLATES).includes(kind) && relative.length > kind.length + 1 ? (kind as TemplateKind) : undefined;
+  }
 } 
\ No newline at end of file
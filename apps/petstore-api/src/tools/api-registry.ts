@@ -0,0 +1,132 @@
+import { Logger, HttpClient, Cache, Config, getApiConfig, createCacheStore } from '../utils/index.js';
+import { ApiTool } from '../types/index.js';
+import { OpenApiLoader } from './openapi-loader.js';
+import { ToolExecutor } from './tool-executor.js';
+
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+export interface RegisteredApi {
+  // Undefined in single-API mode, where tool names and resource URIs are not namespaced
+  name?: string;
+  config: Config;
+  // Responses only, so cache_keys and cache_clear never see or evict the spec
+  cache: Cache;
+  specCache: Cache<string>;
+  openApiLoader: OpenApiLoader;
+  toolExecutor: ToolExecutor;
+}
+
+export interface ResolvedTool {
+  api: RegisteredApi;
+  tool: ApiTool;
+}
+
+/**
+ * Owns one loader/executor pair per configured API and maps namespaced tool names back to them
+ */
+export class ApiRegistry {
+  private readonly logger = new Logger('ApiRegistry');
+  private readonly apis: RegisteredApi[];
+
+  constructor(config: Config, httpClient: HttpClient) {
+    this.apis = config.apis
+      ? config.apis.map((definition) => this.createApi(getApiConfig(config, definition), httpClient, definition.name))
+      : [this.createApi(config, httpClient)];
+  }
+
+  getApis(): RegisteredApi[] {
+    return [...this.apis];
+  }
+
+  getApi(name?: string): RegisteredApi | undefined {
+    return this.apis.find((api) => api.name === name);
+  }
+
+  /**
+   * Loads every API; a failing spec is logged and skipped so the others stay available
+   */
+  async ensureLoaded(): Promise<RegisteredApi[]> {
+    const results = await Promise.allSettled(this.apis.map((api) => api.openApiLoader.ensureLoaded()));
+
+    return this.apis.filter((api, index) => {
+      const result = results[index];
+      if (result.status === 'rejected') {
+        this.logger.error(`Failed to load API${api.name ? ` "${api.name}"` : ''}`, result.reason as Error);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Lists the tools of every successfully loaded API under their public names
+   */
+  async listTools(): Promise<Array<ResolvedTool & { name: string }>> {
+    const loadedApis = await this.ensureLoaded();
+
+    return loadedApis.flatMap((api) =>
+      Array.from(api.openApiLoader.getTools().values()).map((tool) => ({
+        name: this.qualifyToolName(api, tool.name),
+        api,
+        tool,
+      }))
+    );
+  }
+
+  async resolveTool(name: string): Promise<ResolvedTool | undefined> {
+    const { apiName, toolName } = this.splitToolName(name);
+    const api = this.getApi(apiName);
+    if (!api) return undefined;
+
+    await api.openApiLoader.ensureLoaded();
+    const tool = api.openApiLoader.getTool(toolName);
+    return tool ? { api, tool } : undefined;
+  }
+
+  /**
+   * Stops cache timers and closes persistent cache stores
+   */
+  dispose(): void {
+    this.apis.forEach((api) => {
+      api.cache.dispose();
+      api.specCache.dispose();
+    });
+  }
+
+  qualifyToolName(api: RegisteredApi, toolName: string): string {
+    return api.name ? `${api.name}${TOOL_NAMESPACE_SEPARATOR}${toolName}` : toolName;
+  }
+
+  private splitToolName(name: string): { apiName?: string; toolName: string } {
+    if (!this.apis[0].name) {
+      return { toolName: name };
+    }
+
+    const separatorIndex = name.indexOf(TOOL_NAMESPACE_SEPARATOR);
+    if (separatorIndex === -1) {
+      return { apiName: '', toolName: name };
+    }
+    return {
+      apiName: name.slice(0, separatorIndex),
+      toolName: name.slice(separatorIndex + TOOL_NAMESPACE_SEPARATOR.length),
+    };
+  }
+
+  private createApi(config: Config, httpClient: HttpClient, name?: string): RegisteredApi {
+    const cache = new Cache(config.cacheTTL, {
+      store: createCacheStore(config.cache, name),
+      staleWhileRevalidate: config.cache.staleWhileRevalidate,
+    });
+    const specCache = new Cache<string>(config.cacheTTL, {
+      store: createCacheStore(config.cache, `${name || 'default'}-spec`),
+      staleWhileRevalidate: config.cache.staleWhileRevalidate,
+    });
+    // Namespaced tool names must still fit the client limit once the API prefix is added
+    const loaderConfig = name
+      ? { ...config, toolNameMaxLength: config.toolNameMaxLength - name.length - TOOL_NAMESPACE_SEPARATOR.length }
+      : config;
+    const openApiLoader = new OpenApiLoader(loaderConfig, httpClient, specCache);
+    const toolExecutor = new ToolExecutor(config, httpClient, cache, openApiLoader);
+    return { name, config, cache, specCache, openApiLoader, toolExecutor };
+  }
+}
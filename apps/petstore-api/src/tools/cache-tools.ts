@@ -0,0 +1,157 @@
+import { Logger, globToRegExp } from '../utils/index.js';
+import { ApiRegistry, RegisteredApi } from './api-registry.js';
+import { JsonSchema } from './json-schema-builder.js';
+import { ToolAnnotations } from './mutation-guard.js';
+import { FormattedToolResult } from './response-formatter.js';
+
+export const CACHE_STATS_TOOL = 'cache_stats';
+export const CACHE_KEYS_TOOL = 'cache_keys';
+export const CACHE_CLEAR_TOOL = 'cache_clear';
+
+// Keys returned by cache_keys unless a limit is given
+const DEFAULT_KEY_LIMIT = 100;
+
+export interface BuiltInTool {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema;
+  annotations: ToolAnnotations;
+}
+
+/**
+ * Built-in tools that inspect and clear the response cache of every configured API
+ */
+export class CacheTools {
+  private readonly logger = new Logger('CacheTools');
+  private readonly apiRegistry: ApiRegistry;
+
+  constructor(apiRegistry: ApiRegistry) {
+    this.apiRegistry = apiRegistry;
+  }
+
+  getTools(): BuiltInTool[] {
+    const patternDescription =
+      'Glob matched against the whole key, `*` matches anything. Response keys look like `GET /pet/5 getPetById:{"petId":5}`.';
+
+    return [
+      {
+        name: CACHE_STATS_TOOL,
+        description: 'Show the response cache size, hit and miss counts and store type',
+        inputSchema: { type: 'object', properties: this.getApiArgument() },
+        annotations: this.getAnnotations('Cache statistics', false),
+      },
+      {
+        name: CACHE_KEYS_TOOL,
+        description: 'List the keys in the response cache',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...this.getApiArgument(),
+            pattern: { type: 'string', description: patternDescription },
+            limit: { type: 'integer', minimum: 1, description: `Maximum keys per API (default ${DEFAULT_KEY_LIMIT})` },
+          },
+        },
+        annotations: this.getAnnotations('List cache keys', false),
+      },
+      {
+        name: CACHE_CLEAR_TOOL,
+        description: 'Remove entries from the response cache so the next calls fetch fresh data',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...this.getApiArgument(),
+            pattern: { type: 'string', description: `${patternDescription} Omit to clear everything.` },
+          },
+        },
+        annotations: this.getAnnotations('Clear cache', true),
+      },
+    ];
+  }
+
+  handles(name: string): boolean {
+    return [CACHE_STATS_TOOL, CACHE_KEYS_TOOL, CACHE_CLEAR_TOOL].includes(name);
+  }
+
+  call(name: string, args: Record<string, any> = {}): FormattedToolResult {
+    const apis = this.selectApis(args.api);
+    const pattern = typeof args.pattern === 'string' ? globToRegExp(args.pattern) : undefined;
+    let result: Record<string, any>;
+
+    switch (name) {
+      case CACHE_STATS_TOOL:
+        result = {
+          apis: apis.map((api) => {
+            const stats = api.cache.getStats();
+            const lookups = stats.hits + stats.staleHits + stats.misses;
+            return {
+              api: this.getApiLabel(api),
+              store: api.config.cache.store,
+              ...stats,
+              hitRate: lookups > 0 ? Number(((stats.hits + stats.staleHits) / lookups).toFixed(3)) : null,
+            };
+          }),
+        };
+        break;
+
+      case CACHE_KEYS_TOOL: {
+        const limit = typeof args.limit === 'number' ? args.limit : DEFAULT_KEY_LIMIT;
+        result = {
+          apis: apis.map((api) => {
+            const keys = api.cache.keys().filter((key) => !pattern || pattern.test(key)).sort();
+            return { api: this.getApiLabel(api), total: keys.length, keys: keys.slice(0, limit) };
+          }),
+        };
+        break;
+      }
+
+      case CACHE_CLEAR_TOOL:
+        result = {
+          apis: apis.map((api) => ({
+            api: this.getApiLabel(api),
+            removed: api.cache.deleteWhere((key) => !pattern || pattern.test(key)),
+          })),
+        };
+        this.logger.info('Cache cleared', { pattern: args.pattern, result });
+        break;
+
+      default:
+        throw new Error(`Unknown cache tool ${name}`);
+    }
+
+    return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }], structuredContent: result };
+  }
+
+  private selectApis(name: unknown): RegisteredApi[] {
+    if (name === undefined) return this.apiRegistry.getApis();
+
+    const api = this.apiRegistry.getApis().find((candidate) => candidate.name === name);
+    if (!api) {
+      throw new Error(`Unknown API "${name}"`);
+    }
+    return [api];
+  }
+
+  private getApiArgument(): Record<string, JsonSchema> {
+    const names = this.apiRegistry
+      .getApis()
+      .map((api) => api.name)
+      .filter((name): name is string => !!name);
+    return names.length > 0
+      ? { api: { type: 'string', enum: names, description: 'Limit to one API; defaults to all of them' } }
+      : {};
+  }
+
+  private getApiLabel(api: RegisteredApi): string {
+    return api.name || 'default';
+  }
+
+  private getAnnotations(title: string, destructive: boolean): ToolAnnotations {
+    return {
+      title,
+      readOnlyHint: !destructive,
+      destructiveHint: destructive,
+      idempotentHint: true,
+      openWorldHint: false,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+import axios from 'axios';
+import { SecretRedactor } from '../utils/index.js';
+import { RequestPreview } from '../types/index.js';
+import { RequestBodySerializer } from './request-body-serializer.js';
+import { ParameterSerializer } from './parameter-serializer.js';
+
+// Name of the argument that asks for the built request instead of sending it
+export const DRY_RUN_ARGUMENT = 'dryRun';
+
+/**
+ * Thrown instead of sending a request in dry-run mode; carries the request exactly as it would have been sent
+ */
+export class DryRunResult extends Error {
+  readonly preview: RequestPreview;
+  // Final URL including the serialized query string
+  readonly url: string;
+  readonly body?: string;
+  readonly curl: string;
+  readonly httpie: string;
+
+  constructor(toolName: string, preview: RequestPreview) {
+    super(`Dry run of ${toolName}: the request was not sent`);
+    this.name = 'DryRunResult';
+    this.preview = preview;
+    this.url = RequestCommandBuilder.buildUrl(preview);
+    this.body = RequestCommandBuilder.serializeBody(preview.body);
+    this.curl = RequestCommandBuilder.toCurl(preview);
+    this.httpie = RequestCommandBuilder.toHttpie(preview);
+  }
+}
+
+/**
+ * Renders a redacted request preview as commands that can be pasted into a POSIX shell
+ */
+export class RequestCommandBuilder {
+  static buildUrl(preview: RequestPreview): string {
+    // The same serializer builds the query string when the request is actually sent
+    return SecretRedactor.redact(
+      axios.getUri({ url: preview.url, params: preview.query, paramsSerializer: ParameterSerializer.toQueryString })
+    );
+  }
+
+  static serializeBody(body: any): string | undefined {
+    if (body === undefined) return undefined;
+    if (RequestBodySerializer.isFilePreview(body)) return `<${body.size} bytes from ${body.file}>`;
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  static toCurl(preview: RequestPreview): string {
+    const quote = RequestCommandBuilder.quote;
+    const multipart = RequestCommandBuilder.isMultipart(preview);
+    const parts = [`curl -X ${preview.method} ${quote(RequestCommandBuilder.buildUrl(preview))}`];
+
+    Object.entries(RequestCommandBuilder.getSentHeaders(preview)).forEach(([name, value]) => {
+      parts.push(`-H ${quote(`${name}: ${value}`)}`);
+    });
+
+    if (multipart) {
+      RequestCommandBuilder.getMultipartFields(preview.body).forEach(([name, value]) => {
+        if (RequestBodySerializer.isFilePreview(value)) {
+          parts.push(`-F ${quote(`${name}=@${value.file};type=${value.contentType}`)}`);
+        } else {
+          parts.push(`-F ${quote(`${name}=${typeof value === 'object' ? JSON.stringify(value) : value}`)}`);
+        }
+      });
+    } else if (RequestBodySerializer.isFilePreview(preview.body)) {
+      parts.push(`--data-binary ${quote(`@${preview.body.file}`)}`);
+    } else if (preview.body !== undefined) {
+      parts.push(`--data-raw ${quote(RequestCommandBuilder.serializeBody(preview.body) as string)}`);
+    }
+
+    return parts.join(' \\\n  ');
+  }
+
+  static toHttpie(preview: RequestPreview): string {
+    const quote = RequestCommandBuilder.quote;
+    const multipart = RequestCommandBuilder.isMultipart(preview);
+    const parts = [`http${multipart ? ' --multipart' : ''} ${preview.method} ${quote(RequestCommandBuilder.buildUrl(preview))}`];
+
+    Object.entries(RequestCommandBuilder.getSentHeaders(preview)).forEach(([name, value]) => {
+      parts.push(quote(`${name}:${value}`));
+    });
+
+    if (multipart) {
+      RequestCommandBuilder.getMultipartFields(preview.body).forEach(([name, value]) => {
+        if (RequestBodySerializer.isFilePreview(value)) {
+          parts.push(quote(`${name}@${value.file};type=${value.contentType}`));
+        } else {
+          parts.push(quote(`${name}=${typeof value === 'object' ? JSON.stringify(value) : value}`));
+        }
+      });
+    } else if (RequestBodySerializer.isFilePreview(preview.body)) {
+      parts.push(quote(`@${preview.body.file}`));
+    } else if (preview.body !== undefined) {
+      parts.push(`--raw ${quote(RequestCommandBuilder.serializeBody(preview.body) as string)}`);
+    }
+
+    return parts.join(' \\\n  ');
+  }
+
+  private static isMultipart(preview: RequestPreview): boolean {
+    const contentType = Object.entries(preview.headers).find(([name]) => name.toLowerCase() === 'content-type')?.[1];
+    return typeof contentType === 'string' && contentType.startsWith('multipart/');
+  }
+
+  private static getMultipartFields(body: Record<string, any>): Array<[string, any]> {
+    return Object.entries(body || {}).flatMap(([name, value]) =>
+      Array.isArray(value) ? value.map((item): [string, any] => [name, item]) : [[name, value] as [string, any]]
+    );
+  }
+
+  private static getSentHeaders(preview: RequestPreview): Record<string, string> {
+    const headers: Record<string, string> = {};
+    Object.entries(preview.headers).forEach(([name, value]) => {
+      // axios drops Content-Type when there is no body, so the commands do too; curl and HTTPie pick
+      // their own multipart boundary
+      const isContentType = name.toLowerCase() === 'content-type';
+      if (value === undefined || (isContentType && (preview.body === undefined || RequestCommandBuilder.isMultipart(preview)))) {
+        return;
+      }
+      headers[name] = SecretRedactor.redact(String(value));
+    });
+    return headers;
+  }
+
+  private static quote(value: string): string {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
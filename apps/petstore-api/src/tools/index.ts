@@ -1,2 +1,19 @@
 export * from './openapi-loader.js';
-export * from './tool-executor.js'; 
\ No newline at end of file
+export * from './tool-executor.js';
+export * from './json-schema-builder.js';
+export * from './server-resolver.js';
+export * from './api-registry.js';
+export * from './tool-filter.js';
+export * from './tool-namer.js';
+export * from './tool-describer.js';
+export * from './tool-arguments.js';
+export * from './mutation-guard.js';
+export * from './dry-run.js';
+export * from './request-body-serializer.js';
+export * from './parameter-serializer.js';
+export * from './response-formatter.js';
+export * from './paginator.js';
+export * from './response-validator.js';
+export * from './cache-tools.js';
+export * from './spec-reloader.js';
+export * from './spec-explorer.js';
@@ -0,0 +1,226 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { ApiTool, ToolParameter } from '../types/index.js';
+import { ArgumentNaming } from '../utils/index.js';
+import { ToolArguments, ARGUMENT_GROUPS } from './tool-arguments.js';
+
+export interface JsonSchema {
+  [keyword: string]: any;
+}
+
+interface ConversionContext {
+  // Schemas currently being converted, used to detect cycles
+  stack: Set<object>;
+  // Schemas found to be recursive, referenced from `$defs` by name
+  recursive: Map<object, string>;
+  defs: Record<string, JsonSchema>;
+}
+
+// OpenAPI-only keywords that have no JSON Schema meaning
+const DROPPED_KEYWORDS = new Set(['nullable', 'example', 'discriminator', 'xml', 'externalDocs']);
+const SCHEMA_MAP_KEYWORDS = ['properties', 'patternProperties'];
+const SCHEMA_LIST_KEYWORDS = ['allOf', 'oneOf', 'anyOf'];
+
+/**
+ * Converts OpenAPI 3.0 schemas into self-contained JSON Schema (draft 2020-12)
+ * suitable for MCP tool `inputSchema` definitions.
+ */
+export class JsonSchemaBuilder {
+  private readonly document?: OpenAPIV3.Document;
+  private readonly componentNames = new Map<object, string>();
+
+  constructor(document?: OpenAPIV3.Document) {
+    this.document = document;
+
+    // Dereferenced specs share object identity with components.schemas, which gives us $defs names
+    Object.entries(document?.components?.schemas || {}).forEach(([name, schema]) => {
+      this.componentNames.set(schema, name);
+    });
+  }
+
+  buildInputSchema(tool: ApiTool, naming: ArgumentNaming = 'prefix'): JsonSchema {
+    const context: ConversionContext = { stack: new Set(), recursive: new Map(), defs: {} };
+
+    const inputSchema: JsonSchema =
+      naming === 'group'
+        ? this.buildGroupedSchema(tool.parameters, context)
+        : {
+            type: 'object',
+            properties: tool.parameters.reduce((acc, param) => {
+              acc[ToolArguments.getName(param)] = this.buildParameterSchema(param, context);
+              return acc;
+            }, {} as Record<string, JsonSchema>),
+            required: tool.parameters.filter((p) => p.required).map((p) => ToolArguments.getName(p)),
+          };
+
+    if (Object.keys(context.defs).length > 0) {
+      inputSchema.$defs = context.defs;
+    }
+
+    return inputSchema;
+  }
+
+  /**
+   * Converts a single schema; recursive schemas are emitted under the returned `$defs`
+   */
+  convert(schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject): { schema: JsonSchema; $defs: Record<string, JsonSchema> } {
+    const context: ConversionContext = { stack: new Set(), recursive: new Map(), defs: {} };
+    return { schema: this.convertSchema(schema, context), $defs: context.defs };
+  }
+
+  /**
+   * One object argument per parameter location, and the request body as `body`
+   */
+  private buildGroupedSchema(parameters: ToolParameter[], context: ConversionContext): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    ARGUMENT_GROUPS.forEach((location) => {
+      const group = parameters.filter((param) => param.location === location);
+      if (group.length === 0) return;
+
+      if (location === 'body') {
+        properties.body = this.buildParameterSchema(group[0], context);
+      } else {
+        properties[location] = {
+          type: 'object',
+          description: `${location.charAt(0).toUpperCase()}${location.slice(1)} parameters`,
+          properties: Object.fromEntries(group.map((param) => [param.name, this.buildParameterSchema(param, context)])),
+          required: group.filter((param) => param.required).map((param) => param.name),
+        };
+      }
+      if (group.some((param) => param.required)) {
+        required.push(location);
+      }
+    });
+
+    return { type: 'object', properties, required };
+  }
+
+  private buildParameterSchema(param: ToolParameter, context: ConversionContext): JsonSchema {
+    const schema: JsonSchema = param.schema ? this.convertSchema(param.schema, context) : { type: param.type };
+
+    // A parameter description is more specific than the description of a shared schema
+    if (param.description) {
+      return { ...schema, description: param.description };
+    }
+    return schema;
+  }
+
+  private convertSchema(schema: any, context: ConversionContext): JsonSchema {
+    if (!schema || typeof schema !== 'object') return {};
+
+    if (typeof schema.$ref === 'string') {
+      const resolved = this.resolveReference(schema.$ref);
+      if (!resolved) return {};
+      if (!this.componentNames.has(resolved)) {
+        this.componentNames.set(resolved, schema.$ref.split('/').pop());
+      }
+      return this.convertSchema(resolved, context);
+    }
+
+    const defName = context.recursive.get(schema);
+    if (defName && context.defs[defName]) {
+      return { $ref: `#/$defs/${defName}` };
+    }
+
+    if (context.stack.has(schema)) {
+      return { $ref: `#/$defs/${this.markRecursive(schema, context)}` };
+    }
+
+    context.stack.add(schema);
+    const result = this.convertKeywords(schema, context);
+    context.stack.delete(schema);
+
+    const recursiveName = context.recursive.get(schema);
+    if (recursiveName) {
+      context.defs[recursiveName] = result;
+    }
+
+    return result;
+  }
+
+  private convertKeywords(schema: any, context: ConversionContext): JsonSchema {
+    const result: JsonSchema = {};
+
+    for (const [keyword, value] of Object.entries(schema)) {
+      if (DROPPED_KEYWORDS.has(keyword) || keyword.startsWith('x-')) continue;
+
+      if (SCHEMA_MAP_KEYWORDS.includes(keyword)) {
+        result[keyword] = Object.fromEntries(
+          Object.entries(value as Record<string, any>).map(([name, subSchema]) => [name, this.convertSchema(subSchema, context)])
+        );
+      } else if (SCHEMA_LIST_KEYWORDS.includes(keyword)) {
+        result[keyword] = (value as any[]).map((subSchema) => this.convertSchema(subSchema, context));
+      } else if (keyword === 'items' || keyword === 'not' || (keyword === 'additionalProperties' && typeof value === 'object')) {
+        result[keyword] = this.convertSchema(value, context);
+      } else {
+        result[keyword] = value;
+      }
+    }
+
+    if (schema.example !== undefined && result.examples === undefined) {
+      result.examples = [schema.example];
+    }
+
+    // OpenAPI 3.0 boolean exclusive bounds become numeric bounds
+    if (schema.exclusiveMinimum === true && schema.minimum !== undefined) {
+      result.exclusiveMinimum = schema.minimum;
+      delete result.minimum;
+    } else if (typeof schema.exclusiveMinimum === 'boolean') {
+      delete result.exclusiveMinimum;
+    }
+    if (schema.exclusiveMaximum === true && schema.maximum !== undefined) {
+      result.exclusiveMaximum = schema.maximum;
+      delete result.maximum;
+    } else if (typeof schema.exclusiveMaximum === 'boolean') {
+      delete result.exclusiveMaximum;
+    }
+
+    if (schema.nullable === true) {
+      this.applyNullable(result);
+    }
+
+    return result;
+  }
+
+  private applyNullable(result: JsonSchema): void {
+    if (typeof result.type === 'string') {
+      result.type = [result.type, 'null'];
+    } else if (Array.isArray(result.type) && !result.type.includes('null')) {
+      result.type = [...result.type, 'null'];
+    }
+
+    if (Array.isArray(result.enum) && !result.enum.includes(null)) {
+      result.enum = [...result.enum, null];
+    }
+  }
+
+  private markRecursive(schema: object, context: ConversionContext): string {
+    const existing = context.recursive.get(schema);
+    if (existing) return existing;
+
+    const baseName = this.componentNames.get(schema) || 'Schema';
+    const usedNames = new Set(context.recursive.values());
+    let name = baseName;
+    for (let i = 2; usedNames.has(name); i++) {
+      name = `${baseName}${i}`;
+    }
+
+    context.recursive.set(schema, name);
+    return name;
+  }
+
+  private resolveReference(ref: string): any {
+    if (!ref.startsWith('#/') || !this.document) return null;
+
+    const parts = ref.slice(2).split('/');
+    let current: any = this.document;
+
+    for (const part of parts) {
+      current = current?.[part];
+      if (!current) return null;
+    }
+
+    return current;
+  }
+}
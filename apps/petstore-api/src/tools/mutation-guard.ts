@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import { Logger, SafeMode } from '../utils/index.js';
+import { ApiTool, RequestPreview } from '../types/index.js';
+
+// Name of the argument that carries the token from a confirmation preview
+export const CONFIRMATION_ARGUMENT = 'confirmationToken';
+
+const MUTATING_METHODS = new Set(['post', 'put', 'patch', 'delete']);
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete']);
+const DESTRUCTIVE_METHODS = new Set(['put', 'patch', 'delete']);
+const CONFIRMATION_TTL = 5 * 60 * 1000;
+
+export interface ToolAnnotations {
+  title?: string;
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+  openWorldHint: boolean;
+}
+
+interface PendingConfirmation {
+  fingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * Thrown instead of sending a mutating request in confirm mode; carries the preview to show the caller
+ */
+export class ConfirmationRequiredError extends Error {
+  readonly preview: RequestPreview;
+  readonly token: string;
+  readonly expiresAt: number;
+
+  constructor(toolName: string, preview: RequestPreview, token: string, expiresAt: number) {
+    super(`${toolName} modifies data and requires confirmation`);
+    this.name = 'ConfirmationRequiredError';
+    this.preview = preview;
+    this.token = token;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Enforces the server-wide safe mode for POST, PUT, PATCH and DELETE operations
+ */
+export class MutationGuard {
+  private readonly logger = new Logger('MutationGuard');
+  private readonly mode: SafeMode;
+  private readonly pending = new Map<string, PendingConfirmation>();
+
+  constructor(mode: SafeMode) {
+    this.mode = mode;
+  }
+
+  static isMutating(tool: ApiTool): boolean {
+    return MUTATING_METHODS.has(tool.method.toLowerCase());
+  }
+
+  /**
+   * Derives MCP tool annotations from the HTTP method
+   */
+  static getAnnotations(tool: ApiTool): ToolAnnotations {
+    const method = tool.method.toLowerCase();
+    return {
+      title: `${method.toUpperCase()} ${tool.path}`,
+      readOnlyHint: !MUTATING_METHODS.has(method),
+      destructiveHint: DESTRUCTIVE_METHODS.has(method),
+      idempotentHint: IDEMPOTENT_METHODS.has(method),
+      openWorldHint: true,
+    };
+  }
+
+  requiresConfirmation(tool: ApiTool): boolean {
+    return this.mode === 'confirm' && MutationGuard.isMutating(tool);
+  }
+
+  /**
+   * Throws when the tool may not run at all in the current mode
+   */
+  assertAllowed(tool: ApiTool): void {
+    if (this.mode === 'read-only' && MutationGuard.isMutating(tool)) {
+      throw new Error(
+        `${tool.name} (${tool.method.toUpperCase()} ${tool.path}) is blocked because the server runs in read-only mode`
+      );
+    }
+  }
+
+  /**
+   * Issues a single-use token bound to the exact tool and arguments being previewed
+   */
+  issueToken(tool: ApiTool, args: Record<string, any>): { token: string; expiresAt: number } {
+    this.removeExpired();
+
+    const token = randomUUID();
+    const expiresAt = Date.now() + CONFIRMATION_TTL;
+    this.pending.set(token, { fingerprint: this.fingerprint(tool, args), expiresAt });
+    this.logger.debug(`Confirmation requested for ${tool.name}`, { expiresAt: new Date(expiresAt).toISOString() });
+
+    return { token, expiresAt };
+  }
+
+  /**
+   * Returns true (and spends the token) when it matches the tool and arguments it was issued for
+   */
+  consumeToken(tool: ApiTool, args: Record<string, any>): boolean {
+    const token = args[CONFIRMATION_ARGUMENT];
+    if (typeof token !== 'string') return false;
+
+    const confirmation = this.pending.get(token);
+    if (!confirmation || confirmation.expiresAt < Date.now()) {
+      this.pending.delete(token);
+      return false;
+    }
+
+    if (confirmation.fingerprint !== this.fingerprint(tool, args)) {
+      this.logger.warn(`Confirmation token for ${tool.name} does not match the previewed arguments`);
+      return false;
+    }
+
+    this.pending.delete(token);
+    return true;
+  }
+
+  private fingerprint(tool: ApiTool, args: Record<string, any>): string {
+    const requestArgs = { ...args };
+    delete requestArgs[CONFIRMATION_ARGUMENT];
+    return `${tool.name}:${this.stableStringify(requestArgs)}`;
+  }
+
+  private stableStringify(value: any): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.stableStringify(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      return `{${Object.keys(value)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`)
+        .join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    for (const [token, confirmation] of this.pending.entries()) {
+      if (confirmation.expiresAt < now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
@@ -1,51 +1,216 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
-import { OpenAPIV3 } from 'openapi-types';
-import { Logger, HttpClient, Cache, Config } from '../utils/index.js';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import { convertObj } from 'swagger2openapi';
+import { parse as parseYaml } from 'yaml';
+import { Logger, HttpClient, Cache, CacheLookup, HttpCachePolicy, Config } from '../utils/index.js';
 import { ApiTool, ToolParameter, OpenAPIDocument } from '../types/index.js';
+import { ToolFilter } from './tool-filter.js';
+import { ToolNamer } from './tool-namer.js';
+import { ToolDescriber } from './tool-describer.js';
+import { JsonSchemaBuilder } from './json-schema-builder.js';
+import { ToolArguments } from './tool-arguments.js';
+import { RequestBodySerializer, FILE_INPUT_SCHEMA } from './request-body-serializer.js';
+
+// Freshness of a remote spec when its response does not say otherwise
+const SPEC_CACHE_TTL = 3600000;
+
+/**
+ * Outcome of reloading a spec; tool names are unqualified
+ */
+export interface SpecReloadResult {
+  // False when the spec text is identical to the loaded one, e.g. after a 304
+  specChanged: boolean;
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
 
 export class OpenApiLoader {
   private readonly logger = new Logger('OpenApiLoader');
-  private readonly cache: Cache<OpenAPIDocument>;
+  // Holds the raw text of remote specs, so persistent stores never need to serialize a dereferenced document
+  private readonly cache: Cache<string>;
   private readonly httpClient: HttpClient;
   private readonly config: Config;
   private openApiSpec: OpenAPIDocument | null = null;
+  // Raw text of the loaded spec, compared on reload to skip regenerating unchanged tools
+  private specText: string | null = null;
+  private readonly toolFilter: ToolFilter;
+  private readonly toolDescriber: ToolDescriber;
   private apiTools = new Map<string, ApiTool>();
 
   constructor(config: Config, httpClient: HttpClient, cache: Cache) {
     this.config = config;
     this.httpClient = httpClient;
     this.cache = cache;
+    this.toolFilter = new ToolFilter(config.toolFilter);
+    this.toolDescriber = new ToolDescriber(config.toolDescriptionMaxLength);
   }
 
   async loadSpec(): Promise<void> {
-    const cacheKey = 'openapi-spec';
-    
-    // Try to get from cache first
-    const cachedSpec = this.cache.get(cacheKey);
-    if (cachedSpec) {
-      this.openApiSpec = cachedSpec;
-      this.logger.info('Loaded OpenAPI spec from cache');
-      this.generateToolsFromSpec();
-      return;
+    await this.applySpec(false);
+  }
+
+  /**
+   * Loads the spec again, revalidating a cached remote copy, and reports which tools changed.
+   * A spec that fails to load leaves the current tools in place.
+   */
+  async reload(): Promise<SpecReloadResult> {
+    const previousTools = this.fingerprintTools();
+    const specChanged = await this.applySpec(true);
+    if (!specChanged) {
+      return { specChanged, added: [], removed: [], modified: [] };
     }
 
+    const added = Array.from(this.apiTools.keys()).filter((name) => !previousTools.has(name));
+    const removed = Array.from(previousTools.keys()).filter((name) => !this.apiTools.has(name));
+    const modified = Array.from(this.fingerprintTools().entries())
+      .filter(([name, fingerprint]) => previousTools.has(name) && previousTools.get(name) !== fingerprint)
+      .map(([name]) => name);
+
+    this.logger.info('OpenAPI specification reloaded', { added, removed, modified });
+    return { specChanged, added, removed, modified };
+  }
+
+  /**
+   * Serialized tools for change detection. Dereferenced recursive schemas are cyclic, so schemas are compared in
+   * their converted JSON Schema form, which moves cycles into `$defs`.
+   */
+  private fingerprintTools(): Map<string, string> {
+    const builder = new JsonSchemaBuilder(this.openApiSpec ?? undefined);
+    return new Map(
+      Array.from(this.apiTools.entries()).map(([name, tool]) => [
+        name,
+        // Converted schemas are embedded as strings, so the replacer does not visit them again
+        JSON.stringify(tool, (key, value) =>
+          key === 'schema' && value && typeof value === 'object' ? JSON.stringify(builder.convert(value)) : value
+        ),
+      ])
+    );
+  }
+
+  /**
+   * Resolved path of the spec when it is read from disk, for file watching
+   */
+  getLocalSpecPath(): string | undefined {
+    const source = this.getSpecSource();
+    if (/^https?:\/\//i.test(source)) return undefined;
+    return source.startsWith('file://') ? fileURLToPath(source) : resolve(source);
+  }
+
+  /**
+   * Reads, validates and applies the spec; returns false when a reload found the same text
+   */
+  private async applySpec(revalidate: boolean): Promise<boolean> {
+    const source = this.getSpecSource();
+
     try {
-      this.logger.info('Loading OpenAPI specification', { url: this.config.openApiSpecUrl });
-      const response = await this.httpClient.get(this.config.openApiSpecUrl);
-      
-      this.openApiSpec = await SwaggerParser.validate(response.data) as OpenAPIDocument;
-      
-      // Cache the spec
-      this.cache.set(cacheKey, this.openApiSpec, 3600000); // Cache for 1 hour
+      this.logger.info('Loading OpenAPI specification', { source });
+      const { text, location } = await this.readSpecSource(source, revalidate);
+      if (revalidate && text === this.specText) {
+        this.logger.debug('OpenAPI specification is unchanged');
+        return false;
+      }
+
+      const document = await this.toOpenApi3(this.parseSpecText(text));
       
+      // Passing the location lets relative external $refs resolve next to local spec files
+      this.openApiSpec = (location
+        ? await SwaggerParser.validate(location, document, {})
+        : await SwaggerParser.validate(document)) as OpenAPIDocument;
+
+      this.specText = text;
+
       this.logger.info('OpenAPI specification loaded successfully');
       this.generateToolsFromSpec();
+      return true;
     } catch (error) {
       this.logger.error('Failed to load OpenAPI specification', error as Error);
       throw new Error(`Failed to load OpenAPI specification: ${(error as Error).message}`);
     }
   }
 
+  private getSpecSource(): string {
+    return this.config.openApiSpecPath || this.config.openApiSpecUrl;
+  }
+
+  /**
+   * Reads the raw spec text from an http(s) URL, a file:// URL or a local path
+   */
+  private async readSpecSource(source: string, revalidate: boolean): Promise<{ text: string; location?: string }> {
+    const filePath = this.getLocalSpecPath();
+    if (!filePath) {
+      return { text: await this.fetchSpecText(source, revalidate) };
+    }
+
+    return { text: await readFile(filePath, 'utf-8'), location: filePath };
+  }
+
+  /**
+   * Fetches a remote spec through the cache, revalidating expired copies with a conditional request.
+   * `revalidate` sends the conditional request even while the cached copy is fresh.
+   */
+  private async fetchSpecText(source: string, revalidate = false): Promise<string> {
+    const cacheKey = `openapi-spec:${source}`;
+    const cached = this.cache.lookup(cacheKey);
+
+    if (cached?.state === 'fresh' && !revalidate) {
+      this.logger.info('Loaded OpenAPI spec from cache');
+      return cached.data;
+    }
+    if (cached?.state === 'stale' && !revalidate) {
+      this.logger.info('Loaded stale OpenAPI spec from cache, revalidating in the background');
+      this.cache.revalidate(cacheKey, () => this.downloadSpec(source, cacheKey, cached));
+      return cached.data;
+    }
+    return this.downloadSpec(source, cacheKey, cached);
+  }
+
+  private async downloadSpec(source: string, cacheKey: string, cached?: CacheLookup<string>): Promise<string> {
+    const response = await this.httpClient.get<string>(source, {
+      responseType: 'text',
+      transformResponse: (data) => data, // Keep YAML bodies as-is
+      headers: {
+        Accept: 'application/json, application/yaml;q=0.9, text/yaml;q=0.9, */*;q=0.8',
+        ...(cached ? HttpCachePolicy.getConditionalHeaders(cached) : {}),
+      },
+      validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && !!cached),
+    });
+
+    const policy = HttpCachePolicy.fromHeaders(response.headers, SPEC_CACHE_TTL);
+    if (response.status === 304 && cached) {
+      this.logger.info('OpenAPI spec not modified since it was cached');
+      return this.cache.refresh(cacheKey, policy.ttl, policy.options) ?? cached.data;
+    }
+
+    if (policy.storable) {
+      this.cache.set(cacheKey, response.data, policy.ttl, policy.options);
+    }
+    return response.data;
+  }
+
+  private parseSpecText(text: string): any {
+    const trimmed = text.trimStart();
+    const document = trimmed.startsWith('{') ? JSON.parse(trimmed) : parseYaml(text);
+
+    if (!document || typeof document !== 'object') {
+      throw new Error('Specification is neither a JSON nor a YAML object');
+    }
+    return document;
+  }
+
+  private async toOpenApi3(document: any): Promise<OpenAPIV3.Document> {
+    if (document.swagger !== '2.0') {
+      return document;
+    }
+
+    this.logger.info('Converting Swagger 2.0 specification to OpenAPI 3.0');
+    const { openapi } = await convertObj(document as OpenAPIV2.Document, { patch: true, warnOnly: true });
+    return openapi;
+  }
+
   private generateToolsFromSpec(): void {
     if (!this.openApiSpec?.paths) {
       this.logger.warn('No paths found in OpenAPI specification');
@@ -53,6 +218,9 @@ export class OpenApiLoader {
     }
 
     this.apiTools.clear();
+    // Names are assigned before filtering, so changing the filter never renames the remaining tools
+    const toolNamer = new ToolNamer(this.config.toolNameMaxLength);
+    let filteredOut = 0;
 
     Object.entries(this.openApiSpec.paths).forEach(([path, pathItem]) => {
       if (!pathItem) return;
@@ -63,73 +231,75 @@ export class OpenApiLoader {
         const operation = (pathItem as any)[method] as OpenAPIV3.OperationObject;
         if (!operation) return;
 
-        const tool = this.createToolFromOperation(path, method, operation);
-        if (tool) {
-          this.apiTools.set(tool.name, tool);
+        const tool = this.createToolFromOperation(path, method, operation, toolNamer, pathItem);
+        if (!tool) return;
+
+        if (!this.toolFilter.isAllowed(tool)) {
+          filteredOut++;
+          this.logger.debug(`Tool ${tool.name} filtered out`, { reason: this.toolFilter.getRejectionReason(tool) });
+          return;
         }
+        this.apiTools.set(tool.name, tool);
       });
     });
 
-    this.logger.info(`Generated ${this.apiTools.size} tools from OpenAPI spec`);
+    this.logger.info(`Generated ${this.apiTools.size} tools from OpenAPI spec`, filteredOut > 0 ? { filteredOut } : undefined);
   }
 
   private createToolFromOperation(
     path: string,
     method: string,
-    operation: OpenAPIV3.OperationObject
+    operation: OpenAPIV3.OperationObject,
+    toolNamer: ToolNamer,
+    pathItem: OpenAPIV3.PathItemObject
   ): ApiTool | null {
     try {
-      const operationId = operation.operationId || `${method}_${path.replace(/[^a-zA-Z0-9]/g, '_')}`;
-      const description = operation.summary || operation.description || `${method.toUpperCase()} ${path}`;
-
-      const parameters: ToolParameter[] = [];
-
-      // Process parameters
-      if (operation.parameters) {
-        operation.parameters.forEach((param: any) => {
-          if ('$ref' in param) {
-            // Resolve reference if needed
-            const resolved = this.resolveReference(param.$ref);
-            if (resolved && 'name' in resolved) {
-              param = resolved;
-            } else {
-              return;
-            }
-          }
-          
-          parameters.push({
-            name: param.name,
-            description: param.description,
-            required: param.required || false,
-            type: param.schema?.type || 'string',
-            location: param.in as 'path' | 'query' | 'header',
-            schema: param.schema,
-          });
-        });
-      }
+      const name = toolNamer.name(method, path, operation.operationId);
+      const description = this.toolDescriber.describe(method, path, operation);
+
+      const parameters: ToolParameter[] = this.mergeParameters(pathItem.parameters, operation.parameters).map((param) => {
+        // A parameter has either a schema or exactly one `content` entry
+        const mediaType = param.content ? Object.keys(param.content)[0] : undefined;
+        const schema: any = mediaType ? param.content?.[mediaType].schema : param.schema;
+        return {
+          name: param.name,
+          description: param.description,
+          required: param.required || false,
+          type: schema?.type || 'string',
+          location: param.in as ToolParameter['location'],
+          schema,
+          mediaType,
+          style: param.style,
+          explode: param.explode,
+        };
+      });
 
       // Process request body
-      if (operation.requestBody && 'content' in operation.requestBody) {
-        const content = operation.requestBody.content;
-        const jsonContent = content['application/json'];
-        if (jsonContent?.schema) {
-          parameters.push({
-            name: 'body',
-            description: operation.requestBody.description || 'Request body',
-            required: operation.requestBody.required || false,
-            type: 'object',
-            location: 'body',
-            schema: jsonContent.schema,
-          });
-        }
+      const requestBody = this.resolveObject<OpenAPIV3.RequestBodyObject>(operation.requestBody);
+      const mediaType = requestBody?.content && RequestBodySerializer.selectMediaType(Object.keys(requestBody.content));
+      if (requestBody && mediaType) {
+        const schema = this.buildBodySchema(mediaType, requestBody.content[mediaType].schema);
+        parameters.push({
+          name: 'body',
+          description: requestBody.description || (schema === FILE_INPUT_SCHEMA ? FILE_INPUT_SCHEMA.description : 'Request body'),
+          required: requestBody.required || false,
+          type: schema?.type || 'object',
+          location: 'body',
+          schema,
+          mediaType,
+        });
       }
+      ToolArguments.assignNames(parameters, name);
 
       return {
-        name: operationId,
+        name,
+        operationId: operation.operationId,
         description,
         method,
         path,
+        tags: operation.tags,
         parameters,
+        servers: operation.servers || pathItem.servers,
         security: operation.security,
         requestBody: operation.requestBody,
         responses: operation.responses,
@@ -140,6 +310,70 @@ export class OpenApiLoader {
     }
   }
 
+  /**
+   * Swaps binary strings for FILE_INPUT_SCHEMA so uploads accept base64 or a local path
+   */
+  private buildBodySchema(mediaType: string, schema: any): any {
+    const resolved = this.resolveObject<any>(schema);
+
+    switch (RequestBodySerializer.getBodyKind(mediaType)) {
+      case 'binary':
+        return !resolved || this.isBinarySchema(resolved) ? FILE_INPUT_SCHEMA : schema;
+
+      case 'text':
+        return schema || { type: 'string' };
+
+      case 'multipart': {
+        if (!resolved?.properties) return schema;
+        const properties = Object.fromEntries(
+          Object.entries(resolved.properties).map(([name, property]) => {
+            const propertySchema = this.resolveObject<any>(property);
+            if (this.isBinarySchema(propertySchema)) return [name, FILE_INPUT_SCHEMA];
+            if (propertySchema?.type === 'array' && this.isBinarySchema(this.resolveObject(propertySchema.items))) {
+              return [name, { ...propertySchema, items: FILE_INPUT_SCHEMA }];
+            }
+            return [name, property];
+          })
+        );
+        return { ...resolved, properties };
+      }
+
+      default:
+        return schema;
+    }
+  }
+
+  private isBinarySchema(schema: any): boolean {
+    return (
+      schema?.type === 'string' &&
+      (schema.format === 'binary' || schema.format === 'base64' || schema.contentEncoding === 'base64')
+    );
+  }
+
+  /**
+   * Parameters declared on the path apply to every operation below it; the operation overrides one with
+   * the same name and location
+   */
+  private mergeParameters(
+    pathParameters: Array<OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject> = [],
+    operationParameters: Array<OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject> = []
+  ): OpenAPIV3.ParameterObject[] {
+    const merged = new Map<string, OpenAPIV3.ParameterObject>();
+    [...pathParameters, ...operationParameters].forEach((reference) => {
+      const param = this.resolveObject<OpenAPIV3.ParameterObject>(reference);
+      if (!param || !('name' in param)) return;
+      merged.set(`${param.in}:${param.name}`, param);
+    });
+    return Array.from(merged.values());
+  }
+
+  private resolveObject<T>(value: any): T | undefined {
+    if (value && typeof value.$ref === 'string') {
+      return this.resolveReference(value.$ref) ?? undefined;
+    }
+    return value;
+  }
+
   private resolveReference(ref: string): any {
     if (!ref.startsWith('#/')) return null;
     
@@ -162,6 +396,10 @@ export class OpenApiLoader {
     return new Map(this.apiTools);
   }
 
+  getToolFilter(): ToolFilter {
+    return this.toolFilter;
+  }
+
   getTool(name: string): ApiTool | undefined {
     return this.apiTools.get(name);
   }
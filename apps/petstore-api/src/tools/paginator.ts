@@ -0,0 +1,314 @@
+import { Logger, Config, PaginationConfig, PaginationLimits } from '../utils/index.js';
+import { ApiTool, ApiResponse } from '../types/index.js';
+import { ToolArguments } from './tool-arguments.js';
+
+export const FETCH_ALL_ARGUMENT = 'fetchAll';
+export const MAX_PAGES_ARGUMENT = 'maxPages';
+
+// Query parameter names recognised when detecting pagination from the spec, most specific first
+const PAGE_PARAMS = ['page', 'pagenumber', 'page_number', 'pageno', 'pageindex'];
+const SIZE_PARAMS = ['limit', 'size', 'pagesize', 'page_size', 'per_page', 'perpage', 'count'];
+const OFFSET_PARAMS = ['offset', 'skip', 'start'];
+const CURSOR_PARAMS = [
+  'cursor',
+  'after',
+  'pagetoken',
+  'page_token',
+  'nexttoken',
+  'next_token',
+  'continuationtoken',
+  'starting_after',
+];
+const NEXT_CURSOR_FIELDS = [
+  'next_cursor',
+  'nextcursor',
+  'next_page_token',
+  'nextpagetoken',
+  'next_token',
+  'nexttoken',
+  'cursor',
+  'next',
+];
+const ITEM_FIELDS = ['data', 'items', 'results', 'records', 'entries', 'content', 'values'];
+
+/**
+ * Fetches one page; `nextUrl` replaces the tool's URL and query when following Link headers
+ */
+export type PageFetcher = (args: Record<string, any>, nextUrl?: string) => Promise<ApiResponse>;
+
+/**
+ * Follows paginated list operations and merges their item arrays under the configured limits
+ */
+export class Paginator {
+  private readonly logger = new Logger('Paginator');
+  private readonly pagination: Record<string, PaginationConfig>;
+  private readonly limits: PaginationLimits;
+
+  constructor(config: Config) {
+    this.pagination = config.pagination;
+    this.limits = config.paginationLimits;
+  }
+
+  /**
+   * Returns the configured strategy for the operation, or one detected from its parameters and responses
+   */
+  getStrategy(tool: ApiTool): PaginationConfig | undefined {
+    const configured = this.pagination[tool.operationId || tool.name] || this.pagination[tool.name];
+    if (configured) return configured;
+    if (tool.method.toLowerCase() !== 'get') return undefined;
+
+    const queryParams = tool.parameters
+      .filter((param) => param.location === 'query')
+      .map((param) => ToolArguments.getName(param));
+    const findParam = (candidates: string[]) =>
+      candidates.map((candidate) => queryParams.find((name) => name.toLowerCase() === candidate)).find(Boolean);
+
+    const cursorParam = findParam(CURSOR_PARAMS);
+    const nextCursorPath = this.findNextCursorPath(tool);
+    if (cursorParam && nextCursorPath) {
+      return { type: 'cursor', cursorParam, nextCursorPath };
+    }
+
+    const pageParam = findParam(PAGE_PARAMS);
+    if (pageParam) {
+      return { type: 'page', pageParam, sizeParam: findParam(SIZE_PARAMS) };
+    }
+
+    const offsetParam = findParam(OFFSET_PARAMS);
+    if (offsetParam) {
+      return { type: 'offset', offsetParam, limitParam: findParam(SIZE_PARAMS) };
+    }
+
+    if (this.declaresLinkHeader(tool)) {
+      return { type: 'link' };
+    }
+
+    return undefined;
+  }
+
+  isRequested(args: Record<string, any>): boolean {
+    return args[FETCH_ALL_ARGUMENT] === true || typeof args[MAX_PAGES_ARGUMENT] === 'number';
+  }
+
+  getLimits(): PaginationLimits {
+    return this.limits;
+  }
+
+  /**
+   * Fetches pages from `requestUrl` on; Link headers resolve against the current page and must stay on its origin
+   */
+  async paginate(
+    strategy: PaginationConfig,
+    args: Record<string, any>,
+    requestUrl: string,
+    fetchPage: PageFetcher
+  ): Promise<ApiResponse> {
+    const requestedPages = typeof args[MAX_PAGES_ARGUMENT] === 'number' ? args[MAX_PAGES_ARGUMENT] : this.limits.maxPages;
+    const maxPages = Math.max(1, Math.min(requestedPages, this.limits.maxPages));
+    const pageArgs = { ...args };
+    const items: any[] = [];
+    let bytes = 0;
+    let pages = 0;
+    let nextUrl: string | undefined;
+    let first: ApiResponse | undefined;
+    let stopReason: string | undefined;
+
+    if (strategy.type === 'page' && strategy.pageParam && pageArgs[strategy.pageParam] === undefined) {
+      pageArgs[strategy.pageParam] = strategy.startPage ?? 1;
+    }
+
+    for (;;) {
+      const response = await fetchPage(pageArgs, nextUrl);
+
+      if (response.status < 200 || response.status >= 300) {
+        // A failing first page is reported as is; later failures keep what was already fetched
+        if (!first) return response;
+        stopReason = `page ${pages + 1} returned HTTP ${response.status}`;
+        break;
+      }
+
+      const pageItems = this.getItems(response.data, strategy.itemsPath);
+      if (!pageItems) {
+        if (!first) return response;
+        stopReason = `page ${pages + 1} contained no item array`;
+        break;
+      }
+
+      first = first || response;
+      pages++;
+      bytes += Buffer.byteLength(JSON.stringify(pageItems));
+      items.push(...pageItems);
+
+      if (items.length >= this.limits.maxItems) {
+        items.length = this.limits.maxItems;
+        stopReason = `item limit of ${this.limits.maxItems} reached`;
+        break;
+      }
+      if (bytes >= this.limits.maxBytes) {
+        stopReason = `size limit of ${this.limits.maxBytes} bytes reached`;
+        break;
+      }
+
+      const next = this.advance(strategy, pageArgs, response, pageItems);
+      if (!next.hasMore) break;
+      if (pages >= maxPages) {
+        stopReason = `page limit of ${maxPages} reached`;
+        break;
+      }
+      if (next.nextUrl) {
+        // Credentials are attached to every page, so links to other hosts are never followed
+        const link = this.resolveLink(next.nextUrl, nextUrl ?? requestUrl);
+        if (!link || link.origin !== this.resolveLink(requestUrl)?.origin) {
+          stopReason = `next page link ${link ? `points to another origin (${link.origin})` : 'is not a valid URL'}`;
+          break;
+        }
+        nextUrl = link.href;
+      }
+    }
+
+    this.logger.debug('Pagination finished', { pages, items: items.length, stopReason });
+
+    const firstPage = first as ApiResponse;
+    return {
+      ...firstPage,
+      data: this.replaceItems(firstPage.data, strategy.itemsPath, items),
+      pagination: { pages, items: items.length, complete: !stopReason, ...(stopReason ? { stopReason } : {}) },
+    };
+  }
+
+  /**
+   * Updates the request arguments for the next page and reports whether there is one
+   */
+  private advance(
+    strategy: PaginationConfig,
+    pageArgs: Record<string, any>,
+    response: ApiResponse,
+    pageItems: any[]
+  ): { hasMore: boolean; nextUrl?: string } {
+    if (pageItems.length === 0) return { hasMore: false };
+
+    switch (strategy.type) {
+      case 'page': {
+        const pageSize = strategy.sizeParam ? Number(pageArgs[strategy.sizeParam]) : NaN;
+        if (pageItems.length < pageSize) return { hasMore: false };
+        pageArgs[strategy.pageParam as string] = Number(pageArgs[strategy.pageParam as string]) + 1;
+        return { hasMore: true };
+      }
+
+      case 'offset': {
+        const limit = strategy.limitParam ? Number(pageArgs[strategy.limitParam]) : NaN;
+        if (pageItems.length < limit) return { hasMore: false };
+        const offset = Number(pageArgs[strategy.offsetParam as string] ?? 0);
+        pageArgs[strategy.offsetParam as string] = offset + pageItems.length;
+        return { hasMore: true };
+      }
+
+      case 'cursor': {
+        const cursor = this.getPath(response.data, strategy.nextCursorPath);
+        if (cursor === undefined || cursor === null || cursor === '') return { hasMore: false };
+        pageArgs[strategy.cursorParam as string] = cursor;
+        return { hasMore: true };
+      }
+
+      case 'link': {
+        const nextUrl = this.getNextLink(response.headers);
+        return nextUrl ? { hasMore: true, nextUrl } : { hasMore: false };
+      }
+    }
+  }
+
+  private getItems(data: any, itemsPath?: string): any[] | undefined {
+    if (itemsPath) {
+      const items = this.getPath(data, itemsPath);
+      return Array.isArray(items) ? items : undefined;
+    }
+    if (Array.isArray(data)) return data;
+    if (!data || typeof data !== 'object') return undefined;
+
+    const key = this.findItemsKey(data);
+    return key ? data[key] : undefined;
+  }
+
+  private replaceItems(data: any, itemsPath: string | undefined, items: any[]): any {
+    if (Array.isArray(data)) return items;
+
+    const path = itemsPath ? itemsPath.split('.') : [this.findItemsKey(data) as string];
+    const result = { ...data };
+    let target = result;
+    path.slice(0, -1).forEach((segment) => {
+      target[segment] = { ...target[segment] };
+      target = target[segment];
+    });
+    target[path[path.length - 1]] = items;
+    return result;
+  }
+
+  private findItemsKey(data: Record<string, any>): string | undefined {
+    const arrayKeys = Object.keys(data).filter((key) => Array.isArray(data[key]));
+    return (
+      arrayKeys.find((key) => ITEM_FIELDS.includes(key.toLowerCase())) || (arrayKeys.length === 1 ? arrayKeys[0] : undefined)
+    );
+  }
+
+  private getPath(data: any, path?: string): any {
+    if (!path) return undefined;
+    return path.split('.').reduce((current, segment) => (current == null ? undefined : current[segment]), data);
+  }
+
+  private resolveLink(link: string, base?: string): URL | undefined {
+    try {
+      return new URL(link, base);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private getNextLink(headers: Record<string, any> = {}): string | undefined {
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === 'link');
+    const link = key ? String(headers[key]) : '';
+
+    for (const part of link.split(',')) {
+      const url = part.match(/<([^>]+)>/)?.[1];
+      const rel = part.match(/;\s*rel\s*=\s*"?([^";]+)"?/i)?.[1];
+      if (url && rel?.toLowerCase().split(/\s+/).includes('next')) {
+        return url.trim();
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Looks for a next-cursor field in the 2xx response schema, at the top level or one object deep
+   */
+  private findNextCursorPath(tool: ApiTool): string | undefined {
+    const schema = this.getSuccessSchema(tool);
+    const findField = (properties: Record<string, any> = {}) =>
+      NEXT_CURSOR_FIELDS.map((candidate) => Object.keys(properties).find((name) => name.toLowerCase() === candidate))
+        .find(Boolean);
+
+    const topLevel = findField(schema?.properties);
+    if (topLevel) return topLevel;
+
+    for (const [name, property] of Object.entries<any>(schema?.properties || {})) {
+      const nested = findField(property?.properties);
+      if (nested) return `${name}.${nested}`;
+    }
+    return undefined;
+  }
+
+  private declaresLinkHeader(tool: ApiTool): boolean {
+    return Object.entries(tool.responses || {}).some(
+      ([status, response]: [string, any]) =>
+        /^2/.test(status) && Object.keys(response?.headers || {}).some((header) => header.toLowerCase() === 'link')
+    );
+  }
+
+  private getSuccessSchema(tool: ApiTool): any {
+    const status = Object.keys(tool.responses || {})
+      .filter((code) => /^2/.test(code))
+      .sort()[0];
+    const content = status ? tool.responses[status]?.content : undefined;
+    const mediaType = Object.keys(content || {}).find((type) => type.includes('json'));
+    return mediaType ? content[mediaType].schema : undefined;
+  }
+}
@@ -0,0 +1,163 @@
+import { ToolParameter } from '../types/index.js';
+
+// Query values after serialization: repeated keys are arrays, every value is already a string
+export type SerializedQuery = Record<string, string | string[]>;
+
+const DEFAULT_STYLES: Record<string, string> = { path: 'simple', query: 'form', header: 'simple', cookie: 'form' };
+
+/**
+ * Serializes path, query, header and cookie arguments following the OpenAPI `style` and `explode` rules,
+ * e.g. `tags=a&tags=b` (form, exploded), `/pet/.1.2` (label), `;id=5` (matrix) or `filter[name]=x` (deepObject).
+ * Parameters described with `content` instead of a schema are sent as JSON.
+ */
+export class ParameterSerializer {
+  /**
+   * Returns the path segment that replaces `{name}`, percent-encoded apart from the style's delimiters
+   */
+  static serializePath(param: ToolParameter, value: unknown): string {
+    if (param.mediaType) return encodeURIComponent(ParameterSerializer.encodeContent(param, value));
+
+    const style = ParameterSerializer.getStyle(param);
+    const explode = ParameterSerializer.getExplode(param);
+    const encode = encodeURIComponent;
+
+    if (style === 'matrix') {
+      if (Array.isArray(value)) {
+        return explode
+          ? value.map((item) => `;${param.name}=${encode(ParameterSerializer.toText(item))}`).join('')
+          : `;${param.name}=${value.map((item) => encode(ParameterSerializer.toText(item))).join(',')}`;
+      }
+      if (ParameterSerializer.isObject(value)) {
+        const entries = ParameterSerializer.getEntries(value);
+        return explode
+          ? entries.map(([key, item]) => `;${encode(key)}=${encode(item)}`).join('')
+          : `;${param.name}=${entries.flat().map(encode).join(',')}`;
+      }
+      return `;${param.name}=${encode(ParameterSerializer.toText(value))}`;
+    }
+
+    const prefix = style === 'label' ? '.' : '';
+    const separator = style === 'label' && explode ? '.' : ',';
+    return `${prefix}${ParameterSerializer.joinValue(value, explode, separator, encode)}`;
+  }
+
+  /**
+   * Adds the query entries of one argument; exploded objects contribute one key per property
+   */
+  static serializeQuery(param: ToolParameter, value: unknown, query: SerializedQuery): void {
+    if (param.mediaType) {
+      query[param.name] = ParameterSerializer.encodeContent(param, value);
+      return;
+    }
+
+    const style = ParameterSerializer.getStyle(param);
+    const explode = ParameterSerializer.getExplode(param);
+
+    if (style === 'deepObject' && ParameterSerializer.isObject(value)) {
+      ParameterSerializer.getEntries(value).forEach(([key, item]) => (query[`${param.name}[${key}]`] = item));
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      const items = value.map((item) => ParameterSerializer.toText(item));
+      if (style === 'spaceDelimited') query[param.name] = items.join(' ');
+      else if (style === 'pipeDelimited') query[param.name] = items.join('|');
+      else query[param.name] = explode ? items : items.join(',');
+      return;
+    }
+
+    if (ParameterSerializer.isObject(value)) {
+      const entries = ParameterSerializer.getEntries(value);
+      if (explode) {
+        entries.forEach(([key, item]) => (query[key] = item));
+      } else {
+        const separator = style === 'spaceDelimited' ? ' ' : style === 'pipeDelimited' ? '|' : ',';
+        query[param.name] = entries.flat().join(separator);
+      }
+      return;
+    }
+
+    query[param.name] = ParameterSerializer.toText(value);
+  }
+
+  static serializeHeader(param: ToolParameter, value: unknown): string {
+    if (param.mediaType) return ParameterSerializer.encodeContent(param, value);
+    return ParameterSerializer.joinValue(value, ParameterSerializer.getExplode(param), ',', (text) => text);
+  }
+
+  /**
+   * Returns the `name=value` pairs one argument adds to the Cookie header
+   */
+  static serializeCookie(param: ToolParameter, value: unknown): string[] {
+    const encode = encodeURIComponent;
+    if (param.mediaType) return [`${param.name}=${encode(ParameterSerializer.encodeContent(param, value))}`];
+
+    const explode = ParameterSerializer.getExplode(param);
+    if (Array.isArray(value) && explode) {
+      return value.map((item) => `${param.name}=${encode(ParameterSerializer.toText(item))}`);
+    }
+    if (ParameterSerializer.isObject(value) && explode) {
+      return ParameterSerializer.getEntries(value).map(([key, item]) => `${encode(key)}=${encode(item)}`);
+    }
+    return [`${param.name}=${ParameterSerializer.joinValue(value, false, ',', encode)}`];
+  }
+
+  /**
+   * Builds the query string; arrays repeat their key instead of axios' default `key[]=` form
+   */
+  static toQueryString(query: Record<string, unknown>): string {
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+      if (value === undefined) return;
+      (Array.isArray(value) ? value : [value]).forEach((item) => search.append(key, ParameterSerializer.toText(item)));
+    });
+    // URLSearchParams encodes spaces as `+`; %20 is understood by every server, including for spaceDelimited
+    return search.toString().replace(/\+/g, '%20');
+  }
+
+  /**
+   * Simple style: `a,b` for arrays, `k,v,k2,v2` or, exploded, `k=v,k2=v2` for objects
+   */
+  private static joinValue(value: unknown, explode: boolean, separator: string, encode: (text: string) => string): string {
+    if (Array.isArray(value)) {
+      return value.map((item) => encode(ParameterSerializer.toText(item))).join(separator);
+    }
+    if (ParameterSerializer.isObject(value)) {
+      const entries = ParameterSerializer.getEntries(value);
+      return explode
+        ? entries.map(([key, item]) => `${encode(key)}=${encode(item)}`).join(separator)
+        : entries.flat().map(encode).join(separator);
+    }
+    return encode(ParameterSerializer.toText(value));
+  }
+
+  private static getStyle(param: ToolParameter): string {
+    return param.style || DEFAULT_STYLES[param.location] || 'simple';
+  }
+
+  /**
+   * OpenAPI defaults `explode` to true for form style only
+   */
+  private static getExplode(param: ToolParameter): boolean {
+    return param.explode ?? ParameterSerializer.getStyle(param) === 'form';
+  }
+
+  private static encodeContent(param: ToolParameter, value: unknown): string {
+    return /json/i.test(param.mediaType || '') || typeof value !== 'string' ? JSON.stringify(value) : value;
+  }
+
+  private static getEntries(value: Record<string, unknown>): Array<[string, string]> {
+    return Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => [key, ParameterSerializer.toText(item)]);
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static toText(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+}
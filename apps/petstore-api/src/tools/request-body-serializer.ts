@@ -0,0 +1,303 @@
+import { randomUUID } from 'crypto';
+import { readFile, realpath } from 'fs/promises';
+import { basename, extname, isAbsolute, relative, resolve, sep } from 'path';
+import { Logger } from '../utils/index.js';
+import { ToolParameter } from '../types/index.js';
+
+export type BodyKind = 'json' | 'form' | 'multipart' | 'binary' | 'text' | 'xml';
+
+// Loader preference when an operation accepts several media types
+const BODY_KIND_PREFERENCE: BodyKind[] = ['json', 'form', 'multipart', 'binary', 'text', 'xml'];
+
+const FILE_CONTENT_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.xml': 'application/xml',
+  '.zip': 'application/zip',
+};
+
+const FILE_PROPERTIES = {
+  filename: { type: 'string', description: 'File name sent with multipart uploads' },
+  contentType: { type: 'string', description: 'Media type of the file, guessed from the file name when omitted' },
+};
+
+/**
+ * OpenAPI schema that replaces binary strings so files can be passed as base64 or as a local path
+ */
+export const FILE_INPUT_SCHEMA = {
+  'x-file-input': true,
+  description:
+    'File content as a base64 string, {"path": "/local/file"} or {"base64": "...", "filename": "photo.png", "contentType": "image/png"}',
+  oneOf: [
+    { type: 'string', format: 'byte' },
+    { type: 'object', required: ['path'], properties: { path: { type: 'string' }, ...FILE_PROPERTIES }, additionalProperties: false },
+    {
+      type: 'object',
+      required: ['base64'],
+      properties: { base64: { type: 'string', format: 'byte' }, ...FILE_PROPERTIES },
+      additionalProperties: false,
+    },
+  ],
+};
+
+export interface SerializedBody {
+  // Payload handed to the HTTP client
+  data: string | Buffer;
+  contentType: string;
+  // JSON-friendly view of the payload for previews and dry runs
+  preview: any;
+}
+
+export interface FilePreview {
+  file: string;
+  contentType: string;
+  size: number;
+}
+
+interface FileContent {
+  content: Buffer;
+  filename: string;
+  contentType: string;
+  // Local path when the file was read from disk
+  path?: string;
+}
+
+/**
+ * Encodes a tool's body argument for the media type chosen from the operation's request body
+ */
+export class RequestBodySerializer {
+  private readonly logger = new Logger('RequestBodySerializer');
+  private readonly fileUploadRoot?: string;
+
+  constructor(fileUploadRoot?: string) {
+    this.fileUploadRoot = fileUploadRoot ? resolve(fileUploadRoot) : undefined;
+  }
+
+  static getBodyKind(mediaType: string): BodyKind {
+    const type = mediaType.split(';')[0].trim().toLowerCase();
+
+    if (type === 'application/json' || type.endsWith('+json') || type === '*/*') return 'json';
+    if (type === 'application/x-www-form-urlencoded') return 'form';
+    if (type.startsWith('multipart/')) return 'multipart';
+    if (type === 'application/xml' || type === 'text/xml' || type.endsWith('+xml')) return 'xml';
+    if (type.startsWith('text/')) return 'text';
+    return 'binary';
+  }
+
+  /**
+   * Picks the media type a tool sends, preferring JSON and falling back in BODY_KIND_PREFERENCE order
+   */
+  static selectMediaType(mediaTypes: string[]): string | undefined {
+    const ranked = mediaTypes.map((mediaType, index) => ({
+      mediaType,
+      rank: BODY_KIND_PREFERENCE.indexOf(RequestBodySerializer.getBodyKind(mediaType)) * mediaTypes.length + index,
+    }));
+    return ranked.sort((a, b) => a.rank - b.rank)[0]?.mediaType;
+  }
+
+  static isFileSchema(schema: any): boolean {
+    return !!schema?.['x-file-input'];
+  }
+
+  static isFilePreview(value: any): value is FilePreview {
+    return !!value && typeof value === 'object' && typeof value.file === 'string' && typeof value.size === 'number';
+  }
+
+  async serialize(param: ToolParameter, value: any): Promise<SerializedBody> {
+    const mediaType = param.mediaType || 'application/json';
+
+    switch (RequestBodySerializer.getBodyKind(mediaType)) {
+      case 'form': {
+        const data = this.encodeForm(value);
+        return { data, contentType: mediaType, preview: data };
+      }
+
+      case 'multipart':
+        return this.encodeMultipart(param.schema, value);
+
+      case 'binary': {
+        const file = await this.readFileInput(value);
+        return {
+          data: file.content,
+          contentType: mediaType.includes('*') ? file.contentType : mediaType,
+          preview: this.toFilePreview(file),
+        };
+      }
+
+      case 'text': {
+        const data = typeof value === 'string' ? value : JSON.stringify(value);
+        return { data, contentType: mediaType, preview: data };
+      }
+
+      case 'xml': {
+        const data =
+          typeof value === 'string' ? value : this.toXml(param.schema?.xml?.name || param.schema?.title || 'root', value);
+        return { data, contentType: mediaType, preview: data };
+      }
+
+      default:
+        return {
+          data: JSON.stringify(value),
+          contentType: mediaType.includes('*') ? 'application/json' : mediaType,
+          preview: value,
+        };
+    }
+  }
+
+  private encodeForm(value: Record<string, any>): string {
+    const form = new URLSearchParams();
+
+    Object.entries(value || {}).forEach(([name, fieldValue]) => {
+      if (fieldValue === undefined) return;
+      const items = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+      items.forEach((item) => form.append(name, typeof item === 'object' ? JSON.stringify(item) : String(item)));
+    });
+
+    return form.toString();
+  }
+
+  private async encodeMultipart(schema: any, value: Record<string, any>): Promise<SerializedBody> {
+    const boundary = `----PetstoreMcpBoundary${randomUUID().replace(/-/g, '')}`;
+    const chunks: Buffer[] = [];
+    const preview: Record<string, any> = {};
+
+    for (const [name, fieldValue] of Object.entries(value || {})) {
+      if (fieldValue === undefined) continue;
+
+      const propertySchema = schema?.properties?.[name];
+      const isFileField =
+        RequestBodySerializer.isFileSchema(propertySchema) || RequestBodySerializer.isFileSchema(propertySchema?.items);
+      const items = Array.isArray(fieldValue) && (isFileField || propertySchema?.type === 'array') ? fieldValue : [fieldValue];
+      const previews: any[] = [];
+
+      for (const item of items) {
+        if (isFileField) {
+          const file = await this.readFileInput(item);
+          chunks.push(this.buildPart(boundary, name, file.content, file.contentType, file.filename));
+          previews.push(this.toFilePreview(file));
+        } else if (typeof item === 'object' && item !== null) {
+          chunks.push(this.buildPart(boundary, name, Buffer.from(JSON.stringify(item)), 'application/json'));
+          previews.push(item);
+        } else {
+          chunks.push(this.buildPart(boundary, name, Buffer.from(String(item))));
+          previews.push(item);
+        }
+      }
+
+      preview[name] = items === fieldValue ? previews : previews[0];
+    }
+
+    chunks.push(Buffer.from(`--${boundary}--\r\n`));
+
+    return {
+      data: Buffer.concat(chunks),
+      contentType: `multipart/form-data; boundary=${boundary}`,
+      preview,
+    };
+  }
+
+  private buildPart(boundary: string, name: string, content: Buffer, contentType?: string, filename?: string): Buffer {
+    const disposition = `form-data; name="${this.escapeQuoted(name)}"${
+      filename !== undefined ? `; filename="${this.escapeQuoted(filename)}"` : ''
+    }`;
+    const headers = [`--${boundary}`, `Content-Disposition: ${disposition}`];
+    if (contentType) {
+      headers.push(`Content-Type: ${contentType}`);
+    }
+    return Buffer.concat([Buffer.from(`${headers.join('\r\n')}\r\n\r\n`), content, Buffer.from('\r\n')]);
+  }
+
+  private async readFileInput(input: any): Promise<FileContent> {
+    if (typeof input === 'string') {
+      return { content: Buffer.from(input, 'base64'), filename: 'file', contentType: 'application/octet-stream' };
+    }
+
+    if (input && typeof input.path === 'string') {
+      const path = await this.resolveUploadPath(input.path);
+      const filename = input.filename || basename(path);
+      this.logger.debug('Reading upload from local file', { path });
+      return {
+        content: await readFile(path),
+        filename,
+        contentType: input.contentType || this.guessContentType(filename),
+        path,
+      };
+    }
+
+    if (input && typeof input.base64 === 'string') {
+      const filename = input.filename || 'file';
+      return {
+        content: Buffer.from(input.base64, 'base64'),
+        filename,
+        contentType: input.contentType || this.guessContentType(filename),
+      };
+    }
+
+    throw new Error('File content must be a base64 string, {"path": ...} or {"base64": ...}');
+  }
+
+  /**
+   * Local files are only read from inside FILE_UPLOAD_ROOT; without it, any client could upload any server file
+   */
+  private async resolveUploadPath(path: string): Promise<string> {
+    if (!this.fileUploadRoot) {
+      throw new Error('File paths are not accepted unless FILE_UPLOAD_ROOT is set; pass the content as base64');
+    }
+
+    const resolved = resolve(this.fileUploadRoot, path);
+    if (!this.isInsideRoot(this.fileUploadRoot, resolved)) {
+      throw new Error(`File ${path} is outside FILE_UPLOAD_ROOT`);
+    }
+    // Checked again on the real paths, so a symlink inside the root cannot point outside it
+    const root = await realpath(this.fileUploadRoot);
+    const real = await realpath(resolved);
+    if (!this.isInsideRoot(root, real)) {
+      throw new Error(`File ${path} is outside FILE_UPLOAD_ROOT`);
+    }
+
+    return real;
+  }
+
+  private isInsideRoot(root: string, path: string): boolean {
+    const relativePath = relative(root, path);
+    return relativePath !== '..' && !relativePath.startsWith(`..${sep}`) && !isAbsolute(relativePath);
+  }
+
+  private guessContentType(filename: string): string {
+    return FILE_CONTENT_TYPES[extname(filename).toLowerCase()] || 'application/octet-stream';
+  }
+
+  private toFilePreview(file: FileContent): FilePreview {
+    return { file: file.path || file.filename, contentType: file.contentType, size: file.content.length };
+  }
+
+  private toXml(name: string, value: any): string {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.toXml(name, item)).join('');
+    }
+    if (value !== null && typeof value === 'object') {
+      const children = Object.entries(value)
+        .filter(([, child]) => child !== undefined)
+        .map(([childName, child]) => this.toXml(childName, child))
+        .join('');
+      return `<${name}>${children}</${name}>`;
+    }
+    return `<${name}>${this.escapeXml(String(value))}</${name}>`;
+  }
+
+  private escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  private escapeQuoted(text: string): string {
+    return text.replace(/"/g, '%22').replace(/\r?\n/g, ' ');
+  }
+}
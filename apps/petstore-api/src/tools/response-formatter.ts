@@ -0,0 +1,370 @@
+import { randomUUID } from 'crypto';
+import { Logger } from '../utils/index.js';
+import { ApiTool, ApiResponse } from '../types/index.js';
+import { JsonSchema, JsonSchemaBuilder } from './json-schema-builder.js';
+
+export const RESPONSE_URI_PREFIX = 'openapi-response://';
+
+// Rough size of a token for JSON and prose, used to turn the budget into characters
+const CHARS_PER_TOKEN = 4;
+// Full bodies of truncated responses kept for later reads, oldest evicted first
+const MAX_STORED_RESPONSES = 20;
+// Headers worth showing to the model; the rest are noise
+const FORWARDED_HEADERS = [
+  'content-type',
+  'content-length',
+  'location',
+  'link',
+  'etag',
+  'last-modified',
+  'retry-after',
+  'x-total-count',
+];
+// JSON Schema formats every client validator knows; OpenAPI-only ones such as int64 make Ajv refuse the whole schema
+const STANDARD_FORMATS = new Set([
+  'date',
+  'time',
+  'date-time',
+  'email',
+  'hostname',
+  'ipv4',
+  'ipv6',
+  'uri',
+  'uri-reference',
+  'uri-template',
+  'uuid',
+  'regex',
+  'json-pointer',
+  'relative-json-pointer',
+]);
+// Definition holding the declared 2xx body schema, which documents `data` without constraining it
+const RESPONSE_BODY_DEF = 'ResponseBody';
+// Keywords holding instance values rather than subschemas
+const VALUE_KEYWORDS = new Set(['enum', 'const', 'default', 'examples']);
+
+export type ToolResultContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'resource'; resource: { uri: string; mimeType: string; text?: string; blob?: string } };
+
+export interface FormattedToolResult {
+  [key: string]: unknown;
+  content: ToolResultContent[];
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+}
+
+export interface TruncationInfo {
+  message: string;
+  resourceUri: string;
+  totalItems?: number;
+  returnedItems?: number;
+}
+
+interface StoredResponse {
+  mimeType: string;
+  body: Buffer | string;
+}
+
+/**
+ * Shapes API responses into MCP tool results by content type and keeps them within a token budget
+ */
+export class ResponseFormatter {
+  private readonly logger = new Logger('ResponseFormatter');
+  private readonly tokenBudget: number;
+  private readonly storedResponses = new Map<string, StoredResponse>();
+
+  /**
+   * @param tokenBudget Approximate upper bound for a single tool result; 0 disables truncation
+   */
+  constructor(tokenBudget: number) {
+    this.tokenBudget = tokenBudget;
+  }
+
+  /**
+   * Describes `structuredContent` for an operation with 2xx JSON response schemas. Clients reject results that do
+   * not match the outputSchema, so `data` is left open: a body that drifted from the spec still arrives, with the
+   * mismatch in `validation`. The declared schemas, combined with anyOf, are kept under `$defs` for reference.
+   */
+  buildOutputSchema(tool: ApiTool, schemaBuilder: JsonSchemaBuilder): JsonSchema | undefined {
+    const responseSchemas = this.getSuccessSchemas(tool);
+    if (responseSchemas.length === 0) return undefined;
+
+    const $defs: Record<string, JsonSchema> = {};
+    const converted = responseSchemas.map((responseSchema) => {
+      const result = schemaBuilder.convert(responseSchema);
+      Object.assign($defs, result.$defs);
+      return result.schema;
+    });
+    let bodyDef = RESPONSE_BODY_DEF;
+    while ($defs[bodyDef]) bodyDef = `_${bodyDef}`;
+    $defs[bodyDef] = converted.length === 1 ? converted[0] : { anyOf: converted };
+
+    const outputSchema: JsonSchema = {
+      type: 'object',
+      properties: {
+        status: { type: 'integer', description: 'HTTP status code' },
+        headers: { type: 'object', additionalProperties: { type: 'string' } },
+        data: { description: `Response body, declared by the spec as #/$defs/${bodyDef}; not enforced` },
+        truncated: {
+          type: 'object',
+          description: 'Present when the response exceeded the size budget; resourceUri holds the full body',
+        },
+        pagination: {
+          type: 'object',
+          description: 'Pages and items fetched when pagination was followed',
+        },
+        validation: {
+          type: 'object',
+          description: 'Result of checking the body against the declared response schema',
+        },
+      },
+      // Nothing is required: dry runs and confirmation previews return a request preview instead
+    };
+
+    outputSchema.$defs = $defs;
+    return this.stripFormats(outputSchema) as JsonSchema;
+  }
+
+  format(response: ApiResponse): FormattedToolResult {
+    const mimeType = this.getMimeType(response);
+    const headers = this.pickHeaders(response.headers);
+    const isError = response.status >= 400;
+
+    if (Buffer.isBuffer(response.data)) {
+      return this.formatBinary(response, mimeType, headers, isError);
+    }
+
+    if (typeof response.data === 'string' && !this.isJson(mimeType)) {
+      const { text, truncated } = this.truncateText(response.data, mimeType);
+      const result: FormattedToolResult = {
+        content: [{ type: 'text', text: `HTTP ${response.status} ${response.statusText} (${mimeType})\n\n${text}` }],
+      };
+      if (truncated) {
+        result.content.push({ type: 'text', text: truncated.message });
+      }
+      return isError ? { ...result, isError } : { ...result, structuredContent: { status: response.status, headers } };
+    }
+
+    const { data, truncated } = this.fitJson(response.data, mimeType);
+    const structuredContent: Record<string, any> = { status: response.status, headers };
+    if (data !== undefined) structuredContent.data = data;
+    if (response.pagination) structuredContent.pagination = response.pagination;
+    if (response.validation) structuredContent.validation = response.validation;
+    if (truncated) structuredContent.truncated = truncated;
+
+    const content: ToolResultContent[] = [{ type: 'text', text: JSON.stringify(structuredContent, null, 2) }];
+
+    // structuredContent must match the tool's outputSchema, which only describes successful responses
+    return isError ? { content, isError } : { content, structuredContent };
+  }
+
+  handles(uri: string): boolean {
+    return uri.startsWith(RESPONSE_URI_PREFIX);
+  }
+
+  /**
+   * Reads the full body of a response that was truncated earlier
+   */
+  readResource(uri: string): { uri: string; mimeType: string; text?: string; blob?: string } {
+    const stored = this.storedResponses.get(uri.slice(RESPONSE_URI_PREFIX.length));
+    if (!stored) {
+      throw new Error(`Response ${uri} has expired or does not exist`);
+    }
+
+    return Buffer.isBuffer(stored.body)
+      ? { uri, mimeType: stored.mimeType, blob: stored.body.toString('base64') }
+      : { uri, mimeType: stored.mimeType, text: stored.body };
+  }
+
+  private formatBinary(
+    response: ApiResponse,
+    mimeType: string,
+    headers: Record<string, string>,
+    isError: boolean
+  ): FormattedToolResult {
+    const body = response.data as Buffer;
+    const summary = `HTTP ${response.status} ${response.statusText} (${mimeType}, ${body.length} bytes)`;
+    const base64 = body.toString('base64');
+
+    if (this.exceedsBudget(base64.length)) {
+      const resourceUri = this.storeResponse(body, mimeType);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${summary} exceeds the budget of ${this.tokenBudget} tokens. Read resource ${resourceUri} for the content.`,
+          },
+        ],
+        ...(isError ? { isError } : { structuredContent: { status: response.status, headers } }),
+      };
+    }
+
+    const content: ToolResultContent[] = [{ type: 'text', text: summary }];
+    if (mimeType.startsWith('image/')) {
+      content.push({ type: 'image', data: base64, mimeType });
+    } else {
+      content.push({ type: 'resource', resource: { uri: this.storeResponse(body, mimeType), mimeType, blob: base64 } });
+    }
+
+    return isError ? { content, isError } : { content, structuredContent: { status: response.status, headers } };
+  }
+
+  /**
+   * Shrinks the largest array until the JSON fits the budget; falls back to dropping the data
+   */
+  private fitJson(data: any, mimeType: string): { data: any; truncated?: TruncationInfo } {
+    if (data === undefined || data === '') return { data: undefined };
+
+    const serialized = JSON.stringify(data);
+    if (!this.exceedsBudget(serialized.length)) return { data };
+
+    const resourceUri = this.storeResponse(serialized, mimeType);
+    const target = this.findLargestArray(data);
+
+    if (target) {
+      const { items, replace } = target;
+      let low = 0;
+      let high = items.length;
+      while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (this.exceedsBudget(JSON.stringify(replace(items.slice(0, middle))).length)) {
+          high = middle - 1;
+        } else {
+          low = middle;
+        }
+      }
+
+      const trimmed = replace(items.slice(0, low));
+      if (!this.exceedsBudget(JSON.stringify(trimmed).length)) {
+        this.logger.debug('Truncated JSON response', { totalItems: items.length, returnedItems: low });
+        return {
+          data: trimmed,
+          truncated: {
+            message:
+              `Showing ${low} of ${items.length} items to stay within ${this.tokenBudget} tokens. ` +
+              `Read resource ${resourceUri} for the full response, or narrow the request with filters or paging parameters.`,
+            resourceUri,
+            totalItems: items.length,
+            returnedItems: low,
+          },
+        };
+      }
+    }
+
+    return {
+      data: undefined,
+      truncated: {
+        message:
+          `The ${serialized.length}-character response exceeds ${this.tokenBudget} tokens. ` +
+          `Read resource ${resourceUri} for the full response.`,
+        resourceUri,
+      },
+    };
+  }
+
+  /**
+   * Finds the largest array at the top level or one property deep, e.g. `{ items: [...] }`
+   */
+  private findLargestArray(data: any): { items: any[]; replace: (items: any[]) => any } | undefined {
+    if (Array.isArray(data)) {
+      return { items: data, replace: (items) => items };
+    }
+    if (!data || typeof data !== 'object') return undefined;
+
+    const [key] = Object.entries(data)
+      .filter(([, value]) => Array.isArray(value))
+      .sort(([, a], [, b]) => JSON.stringify(b).length - JSON.stringify(a).length)[0] || [];
+    if (key === undefined) return undefined;
+
+    return { items: data[key], replace: (items) => ({ ...data, [key]: items }) };
+  }
+
+  private truncateText(text: string, mimeType: string): { text: string; truncated?: TruncationInfo } {
+    if (!this.exceedsBudget(text.length)) return { text };
+
+    const resourceUri = this.storeResponse(text, mimeType);
+    const limit = this.tokenBudget * CHARS_PER_TOKEN;
+    return {
+      text: text.slice(0, limit),
+      truncated: {
+        message: `[Truncated after ${limit} of ${text.length} characters. Read resource ${resourceUri} for the full response.]`,
+        resourceUri,
+      },
+    };
+  }
+
+  private exceedsBudget(characters: number): boolean {
+    return this.tokenBudget > 0 && characters > this.tokenBudget * CHARS_PER_TOKEN;
+  }
+
+  private storeResponse(body: Buffer | string, mimeType: string): string {
+    const id = randomUUID();
+    this.storedResponses.set(id, { body, mimeType });
+
+    if (this.storedResponses.size > MAX_STORED_RESPONSES) {
+      const oldest = this.storedResponses.keys().next().value as string;
+      this.storedResponses.delete(oldest);
+    }
+    return `${RESPONSE_URI_PREFIX}${id}`;
+  }
+
+  /**
+   * JSON schemas of all 2xx responses, in status order; responses sharing a schema contribute it once
+   */
+  private getSuccessSchemas(tool: ApiTool): any[] {
+    const responses = tool.responses || {};
+    const schemas = Object.keys(responses)
+      .filter((code) => /^2(\d\d|XX)$/i.test(code))
+      .sort()
+      .map((status) => {
+        const content = responses[status]?.content || {};
+        const mediaType = Object.keys(content).find((type) => this.isJson(type));
+        return mediaType ? content[mediaType].schema : undefined;
+      })
+      .filter(Boolean);
+    return Array.from(new Set(schemas));
+  }
+
+  /**
+   * Moves formats that are not JSON Schema formats into the description, so clients can compile the schema
+   */
+  private stripFormats(value: unknown): unknown {
+    if (Array.isArray(value)) return value.map((item) => this.stripFormats(item));
+    if (!value || typeof value !== 'object') return value;
+
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([keyword, child]) => {
+      result[keyword] = VALUE_KEYWORDS.has(keyword) ? child : this.stripFormats(child);
+    });
+    if (typeof result.format === 'string' && !STANDARD_FORMATS.has(result.format)) {
+      const note = `Format: ${result.format}`;
+      result.description = typeof result.description === 'string' ? `${result.description} (${note})` : note;
+      delete result.format;
+    }
+    return result;
+  }
+
+  private getMimeType(response: ApiResponse): string {
+    const contentType = this.findHeader(response.headers, 'content-type');
+    if (contentType) return String(contentType).split(';')[0].trim().toLowerCase();
+    return Buffer.isBuffer(response.data) ? 'application/octet-stream' : 'application/json';
+  }
+
+  private pickHeaders(headers: Record<string, any> = {}): Record<string, string> {
+    return FORWARDED_HEADERS.reduce((picked, name) => {
+      const value = this.findHeader(headers, name);
+      if (value !== undefined) picked[name] = String(value);
+      return picked;
+    }, {} as Record<string, string>);
+  }
+
+  private findHeader(headers: Record<string, any> = {}, name: string): any {
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+    return key ? headers[key] : undefined;
+  }
+
+  private isJson(mimeType: string): boolean {
+    return mimeType === 'application/json' || mimeType.endsWith('+json');
+  }
+}
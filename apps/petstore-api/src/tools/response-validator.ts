@@ -0,0 +1,89 @@
+import { Logger, SchemaValidator } from '../utils/index.js';
+import { ApiTool, ApiResponse, ResponseValidationResult } from '../types/index.js';
+import { OpenApiLoader } from './openapi-loader.js';
+
+/**
+ * Checks response bodies against the schema declared for their status code to flag contract drift
+ */
+export class ResponseValidator {
+  private readonly logger = new Logger('ResponseValidator');
+  private readonly openApiLoader?: OpenApiLoader;
+
+  constructor(openApiLoader?: OpenApiLoader) {
+    this.openApiLoader = openApiLoader;
+  }
+
+  validate(tool: ApiTool, response: ApiResponse): ResponseValidationResult {
+    const responseKey = this.findResponseKey(tool, response.status);
+    if (!responseKey) {
+      return this.report(tool, response, {
+        valid: false,
+        issues: [
+          {
+            path: 'status',
+            keyword: 'responses',
+            message: `status ${response.status} is not declared and there is no default response`,
+          },
+        ],
+      });
+    }
+
+    const content: Record<string, any> = tool.responses[responseKey]?.content || {};
+    const contentType = this.getContentType(response.headers);
+    const mediaType = this.findMediaType(content, contentType);
+    const schema = mediaType ? content[mediaType].schema : undefined;
+
+    // Only JSON bodies can be checked; declared bodies without a schema accept anything
+    const isJsonBody = !Buffer.isBuffer(response.data) && (!contentType || this.isJson(contentType));
+    if (!schema || !isJsonBody || (mediaType && !this.isJson(mediaType))) {
+      return { valid: true, responseKey, issues: [] };
+    }
+
+    const validator = new SchemaValidator(this.openApiLoader?.getSpec() ?? undefined, 'response');
+    const issues = validator.validate(response.data, schema, 'body');
+    return this.report(tool, response, { valid: issues.length === 0, responseKey, issues });
+  }
+
+  private report(tool: ApiTool, response: ApiResponse, result: ResponseValidationResult): ResponseValidationResult {
+    if (!result.valid) {
+      this.logger.warn(`Response of ${tool.name} does not match the spec`, {
+        status: response.status,
+        responseKey: result.responseKey,
+        issues: result.issues,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Exact status first, then the range (2XX), then default
+   */
+  private findResponseKey(tool: ApiTool, status: number): string | undefined {
+    const keys = Object.keys(tool.responses || {});
+    const range = `${String(status)[0]}XX`;
+    return (
+      keys.find((key) => key === String(status)) ||
+      keys.find((key) => key.toUpperCase() === range) ||
+      keys.find((key) => key === 'default')
+    );
+  }
+
+  private getContentType(headers: Record<string, any> = {}): string | undefined {
+    const headerName = Object.keys(headers).find((name) => name.toLowerCase() === 'content-type');
+    return headerName ? String(headers[headerName]).split(';')[0].trim().toLowerCase() : undefined;
+  }
+
+  private findMediaType(content: Record<string, any>, contentType: string | undefined): string | undefined {
+    const mediaTypes = Object.keys(content);
+
+    return (
+      mediaTypes.find((mediaType) => mediaType.toLowerCase() === contentType) ||
+      mediaTypes.find((mediaType) => this.isJson(mediaType)) ||
+      mediaTypes[0]
+    );
+  }
+
+  private isJson(mediaType: string): boolean {
+    return mediaType.includes('json') || mediaType === '*/*';
+  }
+}
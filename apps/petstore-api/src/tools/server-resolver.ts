@@ -0,0 +1,103 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { Logger, Config } from '../utils/index.js';
+import { ApiTool } from '../types/index.js';
+import { OpenApiLoader } from './openapi-loader.js';
+
+export interface ResolvedServer {
+  url: string;
+  description?: string;
+}
+
+export class ServerResolver {
+  private readonly logger = new Logger('ServerResolver');
+  private readonly config: Config;
+  private readonly openApiLoader?: OpenApiLoader;
+
+  constructor(config: Config, openApiLoader?: OpenApiLoader) {
+    this.config = config;
+    this.openApiLoader = openApiLoader;
+  }
+
+  /**
+   * Lists the servers a tool can be called against, in spec order.
+   * Operation-level servers override path-level ones, which override the document's.
+   */
+  listServers(tool: ApiTool): ResolvedServer[] {
+    if (this.config.apiBaseUrl) {
+      return [{ url: this.trimTrailingSlash(this.config.apiBaseUrl), description: 'API_BASE_URL override' }];
+    }
+
+    const servers = tool.servers?.length ? tool.servers : this.openApiLoader?.getSpec()?.servers;
+    if (!servers?.length) {
+      // OpenAPI treats a missing servers block as a single server at "/"
+      return [{ url: this.trimTrailingSlash(this.config.petstoreApiBase) }];
+    }
+
+    return servers.map((server) => ({
+      url: this.resolveServerUrl(server),
+      description: server.description,
+    }));
+  }
+
+  /**
+   * Resolves the base URL for a call; `selection` is a server index or one of the listed URLs
+   */
+  resolve(tool: ApiTool, selection?: number | string): string {
+    const servers = this.listServers(tool);
+
+    if (selection === undefined || selection === null) {
+      return servers[0].url;
+    }
+
+    if (typeof selection === 'number') {
+      const server = servers[selection];
+      if (!server) {
+        throw new Error(`Server index ${selection} is out of range (0-${servers.length - 1})`);
+      }
+      return server.url;
+    }
+
+    const normalized = this.trimTrailingSlash(selection);
+    const server = servers.find((s) => s.url === normalized);
+    if (!server) {
+      throw new Error(`Unknown server "${selection}". Available servers: ${servers.map((s) => s.url).join(', ')}`);
+    }
+    return server.url;
+  }
+
+  private resolveServerUrl(server: OpenAPIV3.ServerObject): string {
+    const url = server.url.replace(/{([^}]+)}/g, (_match, name: string) => this.resolveVariable(server, name));
+
+    // Relative server URLs are resolved against the configured API origin
+    const absolute = /^[a-z][a-z0-9+.-]*:\/\//i.test(url)
+      ? url
+      : `${this.trimTrailingSlash(this.config.petstoreApiBase)}/${url.replace(/^\/+/, '')}`;
+
+    return this.trimTrailingSlash(absolute);
+  }
+
+  private resolveVariable(server: OpenAPIV3.ServerObject, name: string): string {
+    const variable = server.variables?.[name];
+    const override = this.config.serverVariables?.[name];
+
+    if (override !== undefined) {
+      if (variable?.enum && !variable.enum.includes(override)) {
+        this.logger.warn(`Server variable override is not one of the allowed values`, {
+          variable: name,
+          value: override,
+          allowed: variable.enum,
+        });
+      }
+      return override;
+    }
+
+    if (!variable) {
+      throw new Error(`Server variable "${name}" in ${server.url} has no definition`);
+    }
+    return variable.default;
+  }
+
+  private trimTrailingSlash(url: string): string {
+    return url.replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,265 @@
+import { ApiTool } from '../types/index.js';
+import { OpenApiLoader } from './openapi-loader.js';
+import { JsonSchema, JsonSchemaBuilder } from './json-schema-builder.js';
+
+// Protocol limit of values in one completion result
+const MAX_COMPLETION_VALUES = 100;
+const METHOD_ORDER = ['get', 'post', 'put', 'patch', 'delete'];
+const COMPONENT_SCHEMA_REF = '#/components/schemas/';
+// Generated examples stop at this nesting depth, which also ends recursive schemas
+const MAX_EXAMPLE_DEPTH = 4;
+
+export interface Completion {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Operations around one collection path, e.g. POST /pet and GET, PUT, DELETE /pet/{petId}
+ */
+export interface CrudResource {
+  path: string;
+  list?: ApiTool;
+  create?: ApiTool;
+  read?: ApiTool;
+  update?: ApiTool;
+  delete?: ApiTool;
+}
+
+/**
+ * Read-only queries over the loaded spec for prompts, resource templates and argument completion
+ */
+export class SpecExplorer {
+  private readonly openApiLoader: OpenApiLoader;
+
+  constructor(openApiLoader: OpenApiLoader) {
+    this.openApiLoader = openApiLoader;
+  }
+
+  /**
+   * Generated tools ordered by path, then method
+   */
+  getTools(): ApiTool[] {
+    return Array.from(this.openApiLoader.getTools().values()).sort(
+      (a, b) => a.path.localeCompare(b.path) || METHOD_ORDER.indexOf(a.method) - METHOD_ORDER.indexOf(b.method)
+    );
+  }
+
+  getEndpoints(): string[] {
+    return Array.from(new Set(this.getTools().map((tool) => tool.path)));
+  }
+
+  /**
+   * Operations on the endpoint and below it: `/pet` matches `/pet/{petId}` and `/pet/findByStatus`
+   */
+  findOperations(endpoint: string): ApiTool[] {
+    const normalized = `/${endpoint.trim().replace(/^\/+|\/+$/g, '')}`;
+    return this.getTools().filter(
+      (tool) => normalized === '/' || tool.path === normalized || tool.path.startsWith(`${normalized}/`)
+    );
+  }
+
+  /**
+   * Looks an operation up by tool name or operationId
+   */
+  findOperation(name: string): ApiTool | undefined {
+    return this.openApiLoader.getTool(name) ?? this.getTools().find((tool) => tool.operationId === name);
+  }
+
+  /**
+   * Name under components.schemas; dereferenced specs share object identity with the components
+   */
+  getSchemaName(schema: unknown): string | undefined {
+    if (!schema || typeof schema !== 'object') return undefined;
+    const ref = (schema as { $ref?: unknown }).$ref;
+    if (typeof ref === 'string' && ref.startsWith(COMPONENT_SCHEMA_REF)) {
+      return ref.slice(COMPONENT_SCHEMA_REF.length);
+    }
+    const schemas = this.openApiLoader.getSpec()?.components?.schemas || {};
+    return Object.keys(schemas).find((name) => schemas[name] === schema);
+  }
+
+  /**
+   * Component schemas an operation uses in its parameters, request body and responses, including nested ones
+   */
+  getReferencedSchemas(tool: ApiTool): string[] {
+    const names = new Set<string>();
+    const visited = new Set<object>();
+
+    const walk = (value: unknown) => {
+      if (!value || typeof value !== 'object' || visited.has(value)) return;
+      visited.add(value);
+
+      const name = this.getSchemaName(value);
+      if (name) names.add(name);
+      Object.values(value).forEach(walk);
+    };
+
+    tool.parameters.filter((param) => param.location !== 'body').forEach((param) => walk(param.schema));
+    // The raw request body, not the body parameter, whose binary fields were replaced for uploads
+    walk(tool.requestBody);
+    walk(tool.responses);
+    return Array.from(names).sort();
+  }
+
+  /**
+   * A component schema as self-contained JSON Schema, with recursive parts under `$defs`
+   */
+  getSchema(name: string): JsonSchema | undefined {
+    const schema = this.openApiLoader.getSpec()?.components?.schemas?.[name];
+    return schema ? this.toJsonSchema(schema) : undefined;
+  }
+
+  getSchemaNames(): string[] {
+    return Object.keys(this.openApiLoader.getSpec()?.components?.schemas || {}).sort();
+  }
+
+  /**
+   * Any OpenAPI schema of the spec as self-contained JSON Schema
+   */
+  toJsonSchema(schema: unknown): JsonSchema {
+    const converted = new JsonSchemaBuilder(this.openApiLoader.getSpec() ?? undefined).convert(schema as any);
+    return Object.keys(converted.$defs).length > 0 ? { ...converted.schema, $defs: converted.$defs } : converted.schema;
+  }
+
+  /**
+   * Operations that use a component schema anywhere in their parameters, request body or responses
+   */
+  getSchemaUsage(name: string): ApiTool[] {
+    return this.getTools().filter((tool) => this.getReferencedSchemas(tool).includes(name));
+  }
+
+  /**
+   * Tags declared at the top of the spec and tags used by operations
+   */
+  getTags(): string[] {
+    const declared = (this.openApiLoader.getSpec()?.tags || []).map((tag) => tag.name);
+    return Array.from(new Set([...declared, ...this.getTools().flatMap((tool) => tool.tags || [])])).sort();
+  }
+
+  getTagDescription(tag: string): string | undefined {
+    return this.openApiLoader.getSpec()?.tags?.find((candidate) => candidate.name === tag)?.description;
+  }
+
+  /**
+   * Example of a media type or parameter: its own `example`, the first of its `examples`, or one built from the schema
+   */
+  getExample(holder: { example?: unknown; examples?: Record<string, any>; schema?: unknown } | undefined): unknown {
+    if (!holder) return undefined;
+    if (holder.example !== undefined) return holder.example;
+
+    const named = Object.values(holder.examples || {}).find((example) => example?.value !== undefined);
+    return named ? named.value : SpecExplorer.buildExample(holder.schema);
+  }
+
+  /**
+   * Sample value for a schema from its example, default or enum, falling back to a placeholder per type
+   */
+  static buildExample(schema: any, depth = 0): unknown {
+    if (!schema || typeof schema !== 'object' || depth > MAX_EXAMPLE_DEPTH) return undefined;
+    if (schema.example !== undefined) return schema.example;
+    if (schema.default !== undefined) return schema.default;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+    if (Array.isArray(schema.allOf)) {
+      return Object.assign({}, ...schema.allOf.map((part: unknown) => SpecExplorer.buildExample(part, depth + 1)));
+    }
+    const variant = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+    if (variant) return SpecExplorer.buildExample(variant, depth + 1);
+
+    switch (schema.type ?? (schema.properties ? 'object' : undefined)) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(schema.properties || {})
+            .map(([name, property]) => [name, SpecExplorer.buildExample(property, depth + 1)])
+            .filter(([, value]) => value !== undefined)
+        );
+      case 'array': {
+        const item = SpecExplorer.buildExample(schema.items, depth + 1);
+        return item === undefined ? [] : [item];
+      }
+      case 'integer':
+      case 'number':
+        return schema.minimum ?? 0;
+      case 'boolean':
+        return true;
+      case 'string':
+        return SpecExplorer.getStringExample(schema.format);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Groups operations by collection path; only groups with at least two of create, read, update
+   * and delete are returned
+   */
+  getCrudResources(): CrudResource[] {
+    const resources = new Map<string, CrudResource>();
+
+    this.getTools().forEach((tool) => {
+      const isItem = /\/\{[^}]+\}$/.test(tool.path);
+      const path = isItem ? tool.path.replace(/\/\{[^}]+\}$/, '') || '/' : tool.path;
+      const resource = resources.get(path) || { path };
+      resources.set(path, resource);
+
+      // The first matching operation wins, e.g. PUT over PATCH
+      switch (tool.method) {
+        case 'post':
+          if (!isItem) resource.create = resource.create || tool;
+          break;
+        case 'get':
+          if (isItem) resource.read = resource.read || tool;
+          else resource.list = resource.list || tool;
+          break;
+        case 'put':
+        case 'patch':
+          resource.update = resource.update || tool;
+          break;
+        case 'delete':
+          if (isItem) resource.delete = resource.delete || tool;
+          break;
+      }
+    });
+
+    return Array.from(resources.values()).filter(
+      (resource) => [resource.create, resource.read, resource.update, resource.delete].filter(Boolean).length >= 2
+    );
+  }
+
+  private static getStringExample(format: string | undefined): string {
+    switch (format) {
+      case 'date':
+        return '2024-01-01';
+      case 'date-time':
+        return '2024-01-01T00:00:00Z';
+      case 'email':
+        return 'user@example.com';
+      case 'uuid':
+        return '00000000-0000-0000-0000-000000000000';
+      case 'uri':
+        return 'https://example.com';
+      default:
+        return 'string';
+    }
+  }
+
+  /**
+   * Candidates starting with the typed value come first, then those containing it; matching ignores case
+   */
+  static complete(candidates: string[], value: string): Completion {
+    const needle = value.toLowerCase();
+    const unique = Array.from(new Set(candidates));
+    const prefixed = unique.filter((candidate) => candidate.toLowerCase().startsWith(needle));
+    const containing = unique.filter(
+      (candidate) => !candidate.toLowerCase().startsWith(needle) && candidate.toLowerCase().includes(needle)
+    );
+    const matches = [...prefixed, ...containing];
+    return {
+      values: matches.slice(0, MAX_COMPLETION_VALUES),
+      total: matches.length,
+      hasMore: matches.length > MAX_COMPLETION_VALUES,
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { FSWatcher, watch } from 'fs';
+import { basename, dirname } from 'path';
+import { Logger } from '../utils/index.js';
+import { ApiRegistry, RegisteredApi } from './api-registry.js';
+import { SpecReloadResult } from './openapi-loader.js';
+import { BuiltInTool } from './cache-tools.js';
+import { FormattedToolResult } from './response-formatter.js';
+
+export const RELOAD_SPEC_TOOL = 'reload_spec';
+
+// Editors write a file in several steps; changes within this window trigger one reload
+const WATCH_DEBOUNCE = 300;
+
+/**
+ * Reload outcome of one API, with tool names as clients see them
+ */
+export interface ApiReloadResult extends SpecReloadResult {
+  api: string;
+  error?: string;
+}
+
+export type ReloadListener = (results: ApiReloadResult[]) => void;
+
+/**
+ * Reloads specs periodically, when a local spec file changes, or on request through the reload_spec tool,
+ * and tells listeners which tools changed
+ */
+export class SpecReloader {
+  private readonly logger = new Logger('SpecReloader');
+  private readonly apiRegistry: ApiRegistry;
+  private readonly listeners: ReloadListener[] = [];
+  private readonly timers: NodeJS.Timeout[] = [];
+  private readonly watchers: FSWatcher[] = [];
+  private readonly debounceTimers = new Map<RegisteredApi, NodeJS.Timeout>();
+  // One reload per API at a time; overlapping triggers share it
+  private readonly reloading = new Map<RegisteredApi, Promise<ApiReloadResult>>();
+
+  constructor(apiRegistry: ApiRegistry) {
+    this.apiRegistry = apiRegistry;
+  }
+
+  onReload(listener: ReloadListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Starts the refresh timers and file watchers configured per API
+   */
+  start(): void {
+    this.apiRegistry.getApis().forEach((api) => {
+      if (api.config.specRefreshInterval > 0) {
+        const timer = setInterval(() => this.reloadAndNotify([api]), api.config.specRefreshInterval);
+        timer.unref();
+        this.timers.push(timer);
+      }
+
+      const specPath = api.openApiLoader.getLocalSpecPath();
+      if (api.config.specWatch && specPath) {
+        this.watch(api, specPath);
+      }
+    });
+  }
+
+  /**
+   * Reloads one API by name, or all of them, and notifies listeners when a spec changed
+   */
+  async reload(apiName?: string): Promise<ApiReloadResult[]> {
+    const apis = this.apiRegistry.getApis().filter((api) => apiName === undefined || api.name === apiName);
+    if (apis.length === 0) {
+      throw new Error(`Unknown API "${apiName}"`);
+    }
+    return this.reloadAndNotify(apis);
+  }
+
+  getTools(): BuiltInTool[] {
+    const names = this.apiRegistry
+      .getApis()
+      .map((api) => api.name)
+      .filter((name): name is string => !!name);
+
+    return [
+      {
+        name: RELOAD_SPEC_TOOL,
+        description:
+          'Reload the OpenAPI specification now and report added, removed and modified tools. ' +
+          'Use it when an operation was just deployed or a tool call fails because the API changed.',
+        inputSchema: {
+          type: 'object',
+          properties:
+            names.length > 0
+              ? { api: { type: 'string', enum: names, description: 'Reload only this API; defaults to all of them' } }
+              : {},
+        },
+        annotations: {
+          title: 'Reload OpenAPI specification',
+          readOnlyHint: true,
+          destructiveHint: false,
+          idempotentHint: true,
+          openWorldHint: true,
+        },
+      },
+    ];
+  }
+
+  handles(name: string): boolean {
+    return name === RELOAD_SPEC_TOOL;
+  }
+
+  async call(name: string, args: Record<string, any> = {}): Promise<FormattedToolResult> {
+    if (!this.handles(name)) {
+      throw new Error(`Unknown tool ${name}`);
+    }
+
+    const result = { apis: await this.reload(args.api) };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      structuredContent: result,
+      ...(result.apis.every((api) => api.error) ? { isError: true } : {}),
+    };
+  }
+
+  /**
+   * Stops the timers and watchers
+   */
+  dispose(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.debounceTimers.forEach((timer) => clearTimeout(timer));
+    this.watchers.forEach((watcher) => watcher.close());
+    this.timers.length = 0;
+    this.watchers.length = 0;
+    this.debounceTimers.clear();
+  }
+
+  private watch(api: RegisteredApi, specPath: string): void {
+    const fileName = basename(specPath);
+
+    try {
+      // The directory is watched because editors often replace the file instead of writing to it
+      const watcher = watch(dirname(specPath), (_event, changed) => {
+        if (changed && changed.toString() !== fileName) return;
+
+        clearTimeout(this.debounceTimers.get(api));
+        const timer = setTimeout(() => {
+          this.debounceTimers.delete(api);
+          this.reloadAndNotify([api]);
+        }, WATCH_DEBOUNCE);
+        timer.unref();
+        this.debounceTimers.set(api, timer);
+      });
+      watcher.unref();
+      this.watchers.push(watcher);
+      this.logger.info(`Watching ${specPath} for changes`);
+    } catch (error) {
+      this.logger.warn(`Cannot watch ${specPath}`, { error: (error as Error).message });
+    }
+  }
+
+  private async reloadAndNotify(apis: RegisteredApi[]): Promise<ApiReloadResult[]> {
+    const results = await Promise.all(apis.map((api) => this.reloadApi(api)));
+    const changed = results.filter((result) => result.specChanged);
+
+    if (changed.length > 0) {
+      this.listeners.forEach((listener) => {
+        try {
+          listener(changed);
+        } catch (error) {
+          this.logger.error('Reload listener failed', error as Error);
+        }
+      });
+    }
+    return results;
+  }
+
+  private reloadApi(api: RegisteredApi): Promise<ApiReloadResult> {
+    const pending = this.reloading.get(api);
+    if (pending) return pending;
+
+    const label = api.name || 'default';
+    const qualify = (names: string[]) => names.map((name) => this.apiRegistry.qualifyToolName(api, name));
+    const reload = api.openApiLoader
+      .reload()
+      .then((result) => ({
+        api: label,
+        specChanged: result.specChanged,
+        added: qualify(result.added),
+        removed: qualify(result.removed),
+        modified: qualify(result.modified),
+      }))
+      .catch((error) => {
+        this.logger.error(`Failed to reload the spec of ${label}`, error as Error);
+        return { api: label, specChanged: false, added: [], removed: [], modified: [], error: (error as Error).message };
+      })
+      .finally(() => this.reloading.delete(api));
+
+    this.reloading.set(api, reload);
+    return reload;
+  }
+}
@@ -0,0 +1,62 @@
+import { ArgumentNaming, Logger } from '../utils/index.js';
+import { ToolParameter } from '../types/index.js';
+
+// Argument groups in `group` naming, in the order they appear in the input schema
+export const ARGUMENT_GROUPS: Array<ToolParameter['location']> = ['path', 'query', 'header', 'cookie', 'body'];
+
+/**
+ * Maps OpenAPI parameters, which are unique by name and location, to tool arguments, which are unique by name:
+ * - prefix: flat arguments; parameters sharing a name are renamed to `<location>_<name>`
+ * - group: arguments nested by location (`{"path": {"id": 1}, "query": {"id": 2}, "body": {...}}`)
+ */
+export class ToolArguments {
+  private static readonly logger = new Logger('ToolArguments');
+
+  /**
+   * Flat argument name of a parameter
+   */
+  static getName(param: ToolParameter): string {
+    return param.argument ?? param.name;
+  }
+
+  /**
+   * Gives every parameter that shares its name with another one a location prefix. The body argument keeps its
+   * name, so a header called `body` becomes `header_body`.
+   */
+  static assignNames(parameters: ToolParameter[], operation: string): void {
+    const counts = new Map<string, number>();
+    parameters.forEach((param) => counts.set(param.name, (counts.get(param.name) || 0) + 1));
+
+    const taken = new Set(parameters.map((param) => param.name));
+    parameters.forEach((param) => {
+      if ((counts.get(param.name) || 0) < 2 || param.location === 'body') return;
+
+      let argument = `${param.location}_${param.name}`;
+      for (let suffix = 2; taken.has(argument); suffix++) {
+        argument = `${param.location}_${param.name}_${suffix}`;
+      }
+      taken.add(argument);
+      param.argument = argument;
+      ToolArguments.logger.debug(`${param.location} parameter ${param.name} of ${operation} is passed as ${argument}`);
+    });
+  }
+
+  /**
+   * Turns the arguments of a call into flat arguments keyed by getName; arguments outside the groups,
+   * such as dryRun or server, are kept as they are
+   */
+  static flatten(parameters: ToolParameter[], args: Record<string, any>, naming: ArgumentNaming): Record<string, any> {
+    if (naming !== 'group') return args;
+
+    const flat: Record<string, any> = Object.fromEntries(
+      Object.entries(args).filter(([name]) => !ARGUMENT_GROUPS.includes(name as ToolParameter['location']))
+    );
+    parameters.forEach((param) => {
+      const value = param.location === 'body' ? args.body : args[param.location]?.[param.name];
+      if (value !== undefined) {
+        flat[ToolArguments.getName(param)] = value;
+      }
+    });
+    return flat;
+  }
+}
@@ -0,0 +1,93 @@
+import { OpenAPIV3 } from 'openapi-types';
+
+// Response codes listed in a description; the full list is in the output schema and the spec
+const MAX_RESPONSE_CODES = 6;
+const MAX_RESPONSE_TEXT = 60;
+// A description shorter than this after truncation is dropped instead of cut mid-thought
+const MIN_DESCRIPTION_LENGTH = 40;
+
+/**
+ * Builds tool descriptions that tell a model what an operation does and what it returns:
+ * summary, description, tags, deprecation and the main response codes
+ */
+export class ToolDescriber {
+  private readonly maxLength: number;
+
+  /**
+   * @param maxLength Longest description in characters; 0 means unlimited
+   */
+  constructor(maxLength: number) {
+    this.maxLength = maxLength;
+  }
+
+  describe(method: string, path: string, operation: OpenAPIV3.OperationObject): string {
+    const summary = ToolDescriber.clean(operation.summary);
+    const description = ToolDescriber.clean(operation.description);
+    // The summary leads; without one the description takes its place
+    const title = summary || description || `${method.toUpperCase()} ${path}`;
+    const headline = operation.deprecated ? `[DEPRECATED] ${title}` : title;
+    const body = summary && description !== summary ? description : undefined;
+
+    const details: string[] = [];
+    if (operation.tags?.length) {
+      details.push(`Tags: ${operation.tags.join(', ')}`);
+    }
+    const responses = this.describeResponses(operation.responses);
+    if (responses) {
+      details.push(`Responses: ${responses}`);
+    }
+
+    return this.fit(headline, body, details);
+  }
+
+  private describeResponses(responses: OpenAPIV3.ResponsesObject | undefined): string | undefined {
+    const entries = Object.entries(responses || {});
+    if (entries.length === 0) return undefined;
+
+    const listed = entries.slice(0, MAX_RESPONSE_CODES).map(([code, response]) => {
+      // Referenced responses carry their description in components, which is not worth resolving here
+      const text = response && 'description' in response ? ToolDescriber.clean(response.description) : undefined;
+      return text ? `${code} ${ToolDescriber.truncate(text, MAX_RESPONSE_TEXT)}` : code;
+    });
+    const more = entries.length - listed.length;
+    return `${listed.join('; ')}${more > 0 ? ` (+${more} more)` : ''}`;
+  }
+
+  /**
+   * Keeps the headline and the metadata lines; the free-text description absorbs the cut
+   */
+  private fit(headline: string, body: string | undefined, details: string[]): string {
+    const compose = (text?: string) => [headline, text, details.join('\n')].filter(Boolean).join('\n\n');
+    const full = compose(body);
+    if (this.maxLength <= 0 || full.length <= this.maxLength) return full;
+
+    if (body) {
+      const budget = body.length - (full.length - this.maxLength);
+      const shortened = budget >= MIN_DESCRIPTION_LENGTH ? compose(ToolDescriber.truncate(body, budget)) : compose();
+      if (shortened.length <= this.maxLength) return shortened;
+    }
+    return ToolDescriber.truncate(compose(), this.maxLength);
+  }
+
+  /**
+   * Collapses whitespace; spec descriptions are often indented Markdown blocks
+   */
+  private static clean(text: string | undefined): string | undefined {
+    const cleaned = text
+      ?.split(/\n\s*\n/)
+      .map((paragraph) => paragraph.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .join('\n');
+    return cleaned || undefined;
+  }
+
+  /**
+   * Cuts at the last word boundary that fits and marks the cut with an ellipsis
+   */
+  private static truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) return text;
+    const cut = text.slice(0, Math.max(0, maxLength - 1));
+    const boundary = cut.lastIndexOf(' ');
+    return `${(boundary > maxLength / 2 ? cut.slice(0, boundary) : cut).trimEnd()}…`;
+  }
+}
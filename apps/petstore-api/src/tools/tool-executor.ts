@@ -1,36 +1,221 @@
-import { Logger, HttpClient, Cache, Config } from '../utils/index.js';
-import { ApiTool, ApiResponse } from '../types/index.js';
+import { createHash, randomUUID } from 'crypto';
+import {
+  Logger,
+  HttpClient,
+  Cache,
+  CacheLookup,
+  HttpCachePolicy,
+  Config,
+  RateLimitConfig,
+  ArgumentNaming,
+  SchemaValidator,
+  ValidationError,
+  ValidationIssue,
+  SecretRedactor,
+  CircuitOpenError,
+} from '../utils/index.js';
+import { ApiTool, ApiResponse, RequestPreview, ToolParameter } from '../types/index.js';
+import { OpenApiLoader } from './openapi-loader.js';
+import { JsonSchema } from './json-schema-builder.js';
+import { ServerResolver } from './server-resolver.js';
+import { AuthManager } from '../auth/auth-manager.js';
+import { MutationGuard, ConfirmationRequiredError, CONFIRMATION_ARGUMENT } from './mutation-guard.js';
+import { DryRunResult, DRY_RUN_ARGUMENT } from './dry-run.js';
+import { RequestBodySerializer } from './request-body-serializer.js';
+import { ParameterSerializer, SerializedQuery } from './parameter-serializer.js';
+import { ToolArguments } from './tool-arguments.js';
+import { Paginator, FETCH_ALL_ARGUMENT, MAX_PAGES_ARGUMENT } from './paginator.js';
+import { ResponseValidator } from './response-validator.js';
+
+// Name of the optional argument that selects one of the operation's servers
+const SERVER_ARGUMENT = 'server';
+
+const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
 
 export class ToolExecutor {
   private readonly logger = new Logger('ToolExecutor');
   private readonly httpClient: HttpClient;
   private readonly cache: Cache<ApiResponse>;
-  private readonly config: Config;
+  private readonly openApiLoader?: OpenApiLoader;
+  private readonly serverResolver: ServerResolver;
+  private readonly authManager: AuthManager;
+  private readonly mutationGuard: MutationGuard;
+  private readonly bodySerializer: RequestBodySerializer;
+  private readonly paginator: Paginator;
+  // Only set when VALIDATE_RESPONSES is enabled
+  private readonly responseValidator?: ResponseValidator;
+  private readonly dryRun: boolean;
+  private readonly cacheTTL: number;
+  private readonly rateLimit: RateLimitConfig;
+  private readonly idempotencyKeys: boolean;
+  private readonly argumentNaming: ArgumentNaming;
 
-  constructor(config: Config, httpClient: HttpClient, cache: Cache) {
-    this.config = config;
+  constructor(config: Config, httpClient: HttpClient, cache: Cache, openApiLoader?: OpenApiLoader) {
     this.httpClient = httpClient;
     this.cache = cache;
+    this.openApiLoader = openApiLoader;
+    this.serverResolver = new ServerResolver(config, openApiLoader);
+    this.authManager = new AuthManager(config, httpClient, openApiLoader);
+    this.mutationGuard = new MutationGuard(config.safeMode);
+    this.bodySerializer = new RequestBodySerializer(config.fileUploadRoot);
+    this.paginator = new Paginator(config);
+    if (config.validateResponses) {
+      this.responseValidator = new ResponseValidator(openApiLoader);
+    }
+    this.dryRun = config.dryRun;
+    this.cacheTTL = config.cacheTTL;
+    this.rateLimit = config.rateLimit;
+    this.idempotencyKeys = config.idempotencyKeys;
+    this.argumentNaming = config.argumentNaming;
   }
 
-  async execute(tool: ApiTool, args: Record<string, any> = {}): Promise<ApiResponse> {
-    this.logger.debug(`Executing tool: ${tool.name}`, { args });
+  /**
+   * Describes the executor-level arguments a tool accepts on top of its OpenAPI parameters
+   */
+  getControlArguments(tool: ApiTool): Record<string, JsonSchema> {
+    const controlArguments: Record<string, JsonSchema> = {};
 
-    // Build cache key for GET requests
-    const cacheKey = this.buildCacheKey(tool, args);
-    
-    // Check cache for GET requests
-    if (tool.method === 'get' && cacheKey) {
-      const cached = this.cache.get(cacheKey);
-      if (cached) {
-        this.logger.debug(`Returning cached response for ${tool.name}`);
-        return cached;
+    if (!this.hasParameter(tool, SERVER_ARGUMENT)) {
+      const servers = this.serverResolver.listServers(tool);
+      if (servers.length > 1) {
+        controlArguments[SERVER_ARGUMENT] = {
+          description: `Server to send the request to, by URL or index. Defaults to ${servers[0].url}. Available: ${servers
+            .map((server, index) => `[${index}] ${server.url}${server.description ? ` (${server.description})` : ''}`)
+            .join(', ')}`,
+          oneOf: [
+            { type: 'string', enum: servers.map((server) => server.url) },
+            { type: 'integer', minimum: 0, maximum: servers.length - 1 },
+          ],
+        };
       }
     }
 
+    if (this.mutationGuard.requiresConfirmation(tool) && !this.hasParameter(tool, CONFIRMATION_ARGUMENT)) {
+      controlArguments[CONFIRMATION_ARGUMENT] = {
+        type: 'string',
+        description:
+          'Token returned by a previous call with the same arguments. Call once without it to preview the request, then again with it to send the request.',
+      };
+    }
+
+    if (!this.dryRun && !this.hasParameter(tool, DRY_RUN_ARGUMENT)) {
+      controlArguments[DRY_RUN_ARGUMENT] = {
+        type: 'boolean',
+        description:
+          'Return the fully built HTTP request (secrets redacted) with equivalent curl and HTTPie commands instead of sending it.',
+      };
+    }
+
+    const strategy = this.paginator.getStrategy(tool);
+    if (strategy && this.acceptsPaginationArguments(tool)) {
+      const { maxPages, maxItems } = this.paginator.getLimits();
+      controlArguments[FETCH_ALL_ARGUMENT] = {
+        type: 'boolean',
+        description: `Follow ${strategy.type} pagination and merge all pages into one result (at most ${maxPages} pages and ${maxItems} items).`,
+      };
+      controlArguments[MAX_PAGES_ARGUMENT] = {
+        type: 'integer',
+        minimum: 1,
+        maximum: maxPages,
+        description: 'Follow pagination for at most this many pages; implies fetchAll.',
+      };
+    }
+
+    return controlArguments;
+  }
+
+  async execute(tool: ApiTool, toolArgs: Record<string, any> = {}): Promise<ApiResponse> {
+    this.logger.debug(`Executing tool: ${tool.name}`, { args: toolArgs });
+    // Everything below works on flat arguments keyed by ToolArguments.getName
+    const args = ToolArguments.flatten(tool.parameters, toolArgs, this.argumentNaming);
+
+    // Filters are enforced again here so a stale or hand-crafted tool name cannot bypass them
+    const rejection = this.openApiLoader?.getToolFilter().getRejectionReason(tool);
+    if (rejection) {
+      throw new Error(`Tool ${tool.name} is disabled: ${rejection}`);
+    }
+
+    // Nothing is sent in a dry run, so safe mode and the cache are skipped
+    const dryRun = this.isDryRun(tool, args);
+    if (!dryRun) {
+      this.mutationGuard.assertAllowed(tool);
+    }
+
+    if (this.acceptsPaginationArguments(tool) && this.paginator.isRequested(args)) {
+      const strategy = this.paginator.getStrategy(tool);
+      if (!strategy) {
+        throw new Error(`${tool.name} does not support pagination, call it without ${FETCH_ALL_ARGUMENT} and ${MAX_PAGES_ARGUMENT}`);
+      }
+      const { url } = await this.buildRequest(tool, args);
+      return this.paginator.paginate(strategy, args, url, (pageArgs, nextUrl) =>
+        this.executeRequest(tool, pageArgs, dryRun, nextUrl)
+      );
+    }
+
+    return this.executeRequest(tool, args, dryRun);
+  }
+
+  /**
+   * Sends a single request; `nextUrl` replaces the built URL and query when following Link headers
+   */
+  private async executeRequest(
+    tool: ApiTool,
+    args: Record<string, any>,
+    dryRun: boolean,
+    nextUrl?: string
+  ): Promise<ApiResponse> {
+    // Build cache key for GET requests
+    const cacheKey = nextUrl || dryRun ? null : this.buildCacheKey(tool, args);
+    const cached = cacheKey ? this.cache.lookup(cacheKey) : undefined;
+
+    if (cacheKey && cached?.state === 'fresh') {
+      this.logger.debug(`Returning cached response for ${tool.name}`);
+      return cached.data;
+    }
+    if (cacheKey && cached?.state === 'stale') {
+      this.logger.debug(`Returning stale response for ${tool.name} while revalidating`);
+      this.cache.revalidate(cacheKey, () => this.sendRequest(tool, args, false, undefined, cacheKey, cached));
+      return cached.data;
+    }
+
+    return this.sendRequest(tool, args, dryRun, nextUrl, cacheKey, cached);
+  }
+
+  /**
+   * Builds and sends the request; a cached entry makes it conditional and is renewed on HTTP 304
+   */
+  private async sendRequest(
+    tool: ApiTool,
+    args: Record<string, any>,
+    dryRun: boolean,
+    nextUrl: string | undefined,
+    cacheKey: string | null,
+    cached?: CacheLookup<ApiResponse>
+  ): Promise<ApiResponse> {
     try {
       // Build request
-      const { url, params, headers, data } = this.buildRequest(tool, args);
+      const request = await this.buildRequest(tool, args);
+      const { headers, data, bodyPreview } = request;
+      const url = nextUrl ?? request.url;
+      const params = nextUrl ? {} : request.params;
+      await this.authManager.applyCredentials(tool, { params, headers });
+      this.addIdempotencyKey(tool, headers);
+
+      if (dryRun) {
+        throw new DryRunResult(tool.name, this.buildPreview(tool.method, url, params, headers, bodyPreview));
+      }
+
+      if (this.mutationGuard.requiresConfirmation(tool) && !this.mutationGuard.consumeToken(tool, args)) {
+        const { token, expiresAt } = this.mutationGuard.issueToken(tool, args);
+        const preview = this.buildPreview(tool.method, url, params, headers, bodyPreview);
+        throw new ConfirmationRequiredError(tool.name, preview, token, expiresAt);
+      }
+
+      if (cached) {
+        Object.entries(HttpCachePolicy.getConditionalHeaders(cached)).forEach(([name, value]) => {
+          headers[name] = headers[name] ?? value;
+        });
+      }
 
       // Execute request
       const response = await this.httpClient.request({
@@ -39,80 +224,259 @@ export class ToolExecutor {
         params,
         headers,
         data,
+        // Values are serialized per parameter style already; arrays repeat their key
+        paramsSerializer: ParameterSerializer.toQueryString,
+        // Bodies are decoded by content type below so images and files survive intact
+        responseType: 'arraybuffer',
         validateStatus: () => true, // Don't throw on non-2xx status
-      });
+      }, { rateLimit: this.rateLimit });
+
+      if (response.status === 401) {
+        // A revoked or rotated OAuth2 token is re-acquired on the next call
+        this.authManager.invalidateTokens();
+      }
+
+      const cachePolicy = HttpCachePolicy.fromHeaders(response.headers, this.cacheTTL);
+      if (response.status === 304 && cacheKey && cached) {
+        this.logger.debug(`Cached response for ${tool.name} is still valid`);
+        return this.cache.refresh(cacheKey, cachePolicy.ttl, cachePolicy.options) ?? cached.data;
+      }
 
       // Format response
       const apiResponse: ApiResponse = {
         status: response.status,
         statusText: response.statusText,
         headers: response.headers,
-        data: response.data,
+        data: this.decodeResponseBody(response.data, response.headers?.['content-type']),
       };
 
-      // Cache successful GET requests
+      if (MutationGuard.isMutating(tool) && response.status >= 200 && response.status < 300) {
+        this.invalidateCachedResource(tool, args);
+      }
+
+      if (this.responseValidator) {
+        apiResponse.validation = this.responseValidator.validate(tool, apiResponse);
+      }
+
+      // Cache successful GET requests unless the response forbids it
       if (tool.method === 'get' && response.status >= 200 && response.status < 300 && cacheKey) {
-        this.cache.set(cacheKey, apiResponse);
+        if (cachePolicy.storable) {
+          this.cache.set(cacheKey, apiResponse, cachePolicy.ttl, cachePolicy.options);
+        } else {
+          this.cache.delete(cacheKey);
+        }
       }
 
       return apiResponse;
     } catch (error) {
+      if (
+        error instanceof ValidationError ||
+        error instanceof ConfirmationRequiredError ||
+        error instanceof DryRunResult ||
+        error instanceof CircuitOpenError
+      ) {
+        throw error;
+      }
       this.logger.error(`Failed to execute tool ${tool.name}`, error as Error);
       throw new Error(`Failed to execute ${tool.name}: ${(error as Error).message}`);
     }
   }
 
-  private buildRequest(tool: ApiTool, args: Record<string, any>): {
+  /**
+   * One key per tool call, reused by every retry, so the API can drop duplicate POST and PATCH requests
+   */
+  private addIdempotencyKey(tool: ApiTool, headers: Record<string, any>): void {
+    if (!this.idempotencyKeys || (tool.method !== 'post' && tool.method !== 'patch')) return;
+
+    const present = Object.keys(headers).some((name) => name.toLowerCase() === IDEMPOTENCY_KEY_HEADER.toLowerCase());
+    if (!present) {
+      headers[IDEMPOTENCY_KEY_HEADER] = randomUUID();
+    }
+  }
+
+  private async buildRequest(tool: ApiTool, args: Record<string, any>): Promise<{
     url: string;
     params: Record<string, any>;
     headers: Record<string, any>;
     data: any;
-  } {
-    let url = `${this.config.petstoreApiBase}/api/v3${tool.path}`;
-    const queryParams: Record<string, any> = {};
+    bodyPreview: any;
+  }> {
+    // Validate required parameters and argument values before anything is sent upstream
+    this.validateArguments(tool, args);
+
+    const serverSelection = this.hasParameter(tool, SERVER_ARGUMENT) ? undefined : args[SERVER_ARGUMENT];
+    const url = `${this.serverResolver.resolve(tool, serverSelection)}${this.resolvePath(tool, args)}`;
+    const queryParams: SerializedQuery = {};
     const headers: Record<string, any> = {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json',
+      'Accept': this.buildAcceptHeader(tool),
     };
-    let body: any = undefined;
-
-    // Validate required parameters
-    const missingParams = tool.parameters
-      .filter(p => p.required && args[p.name] === undefined)
-      .map(p => p.name);
-
-    if (missingParams.length > 0) {
-      throw new Error(`Missing required parameters: ${missingParams.join(', ')}`);
-    }
+    const cookies: string[] = [];
+    let bodyParam: ToolParameter | undefined;
 
     // Process parameters
     tool.parameters.forEach((param) => {
-      const value = args[param.name];
+      const value = args[ToolArguments.getName(param)];
       if (value === undefined) return;
 
       switch (param.location) {
-        case 'path':
-          url = url.replace(`{${param.name}}`, encodeURIComponent(String(value)));
-          break;
         case 'query':
-          queryParams[param.name] = value;
+          ParameterSerializer.serializeQuery(param, value, queryParams);
           break;
         case 'header':
-          headers[param.name] = value;
+          headers[param.name] = ParameterSerializer.serializeHeader(param, value);
+          break;
+        case 'cookie':
+          cookies.push(...ParameterSerializer.serializeCookie(param, value));
           break;
         case 'body':
-          body = value;
+          bodyParam = param;
           break;
       }
     });
 
+    if (cookies.length > 0) {
+      // Cookie API keys are appended to this header later
+      headers['Cookie'] = cookies.join('; ');
+    }
+
     // Validate all path parameters were replaced
     const unreplacedParams = url.match(/{[^}]+}/g);
     if (unreplacedParams) {
       throw new Error(`Unreplaced path parameters: ${unreplacedParams.join(', ')}`);
     }
 
-    return { url, params: queryParams, headers, data: body };
+    if (!bodyParam) {
+      return { url, params: queryParams, headers, data: undefined, bodyPreview: undefined };
+    }
+
+    // Content-Type follows the media type chosen from the operation's request body
+    const body = await this.bodySerializer.serialize(bodyParam, args[ToolArguments.getName(bodyParam)]);
+    headers['Content-Type'] = body.contentType;
+    return { url, params: queryParams, headers, data: body.data, bodyPreview: body.preview };
+  }
+
+  /**
+   * Fills the path template with the path arguments, serialized per parameter style
+   */
+  private resolvePath(tool: ApiTool, args: Record<string, any>): string {
+    return tool.parameters
+      .filter((param) => param.location === 'path' && args[ToolArguments.getName(param)] !== undefined)
+      .reduce((path, param) => {
+        const value = ParameterSerializer.serializePath(param, args[ToolArguments.getName(param)]);
+        return path.replace(`{${param.name}}`, value);
+      }, tool.path);
+  }
+
+  /**
+   * Evicts cached GETs below the resource a successful mutation changed, including the collection of
+   * the changed item: DELETE /pet/5 evicts GET /pet/5 and GET /pet/findByStatus, POST /pet/5/uploadImage
+   * evicts GET /pet/5
+   */
+  private invalidateCachedResource(tool: ApiTool, args: Record<string, any>): void {
+    const segments = this.resolvePath(tool, args).split('/').filter(Boolean);
+    const resourceSegments = /\{[^}]+\}$/.test(tool.path) ? segments.slice(0, -1) : segments;
+    const isPrefix = (prefix: string[], of: string[]) => prefix.every((segment, index) => of[index] === segment);
+
+    const evicted = this.cache.deleteWhere((key) => {
+      const cachedPath = ToolExecutor.getCachedPath(key);
+      if (cachedPath === undefined) return false;
+      const cachedSegments = cachedPath.split('/').filter(Boolean);
+      return isPrefix(resourceSegments, cachedSegments) || isPrefix(cachedSegments, segments);
+    });
+
+    if (evicted > 0) {
+      this.logger.debug(`Evicted ${evicted} cached responses after ${tool.name}`);
+    }
+  }
+
+  private static hashSecret(value: unknown): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return `sha256:${createHash('sha256').update(text).digest('hex').slice(0, 16)}`;
+  }
+
+  /**
+   * Extracts the request path from a key built by buildCacheKey
+   */
+  private static getCachedPath(cacheKey: string): string | undefined {
+    const match = cacheKey.match(/^GET (\S+) /);
+    return match ? match[1] : undefined;
+  }
+
+  /**
+   * Lists the media types the operation declares for its successful responses, JSON first
+   */
+  private buildAcceptHeader(tool: ApiTool): string {
+    const mediaTypes = new Set<string>();
+    Object.entries(tool.responses || {}).forEach(([status, response]: [string, any]) => {
+      if (!/^2/.test(status)) return;
+      Object.keys(response?.content || {}).forEach((mediaType) => mediaTypes.add(mediaType));
+    });
+
+    const sorted = Array.from(mediaTypes).sort((a, b) => Number(!a.includes('json')) - Number(!b.includes('json')));
+    return sorted.length > 0 ? sorted.join(', ') : 'application/json';
+  }
+
+  private decodeResponseBody(data: any, contentType: string | undefined): any {
+    if (!(data instanceof ArrayBuffer) && !Buffer.isBuffer(data)) return data;
+
+    const body = Buffer.from(data as ArrayBuffer);
+    const mimeType = String(contentType || '').split(';')[0].trim().toLowerCase();
+
+    if (body.length === 0) return '';
+    if (!mimeType || mimeType === 'application/json' || mimeType.endsWith('+json')) {
+      const text = body.toString('utf-8');
+      try {
+        return JSON.parse(text);
+      } catch {
+        return mimeType ? text : body;
+      }
+    }
+    if (
+      mimeType.startsWith('text/') ||
+      mimeType.endsWith('+xml') ||
+      ['application/xml', 'application/javascript', 'application/x-www-form-urlencoded'].includes(mimeType)
+    ) {
+      return body.toString('utf-8');
+    }
+    return body;
+  }
+
+  private validateArguments(tool: ApiTool, args: Record<string, any>): void {
+    const validator = new SchemaValidator(this.openApiLoader?.getSpec() ?? undefined);
+    const issues: ValidationIssue[] = [];
+
+    tool.parameters.forEach((param) => {
+      const name = ToolArguments.getName(param);
+      if (args[name] === undefined) {
+        if (param.required) issues.push({ path: name, keyword: 'required', message: 'is required' });
+        return;
+      }
+      issues.push(...validator.validate(args[name], param.schema, name));
+    });
+
+    if (issues.length > 0) {
+      this.logger.debug(`Argument validation failed for ${tool.name}`, { issues });
+      throw new ValidationError(
+        `Invalid arguments for ${tool.name}: ${issues.map((issue) => `${issue.path} ${issue.message}`).join('; ')}`,
+        issues
+      );
+    }
+  }
+
+  private buildPreview(
+    method: string,
+    url: string,
+    params: Record<string, any>,
+    headers: Record<string, any>,
+    data: any
+  ): RequestPreview {
+    return {
+      method: method.toUpperCase(),
+      url,
+      query: SecretRedactor.redactValue(params),
+      headers: SecretRedactor.redactValue(headers),
+      body: SecretRedactor.redactValue(data),
+    };
   }
 
   private buildCacheKey(tool: ApiTool, args: Record<string, any>): string | null {
@@ -123,12 +487,31 @@ export class ToolExecutor {
     const relevantArgs = tool.parameters
       .filter(p => p.location !== 'header' || p.name.toLowerCase() === 'authorization')
       .reduce((acc, param) => {
-        if (args[param.name] !== undefined) {
-          acc[param.name] = args[param.name];
+        const name = ToolArguments.getName(param);
+        if (args[name] !== undefined) {
+          // Keys are listed by cache_keys and written to disk by persistent stores, so credentials are hashed
+          acc[name] = SecretRedactor.isSensitiveKey(param.name) ? ToolExecutor.hashSecret(args[name]) : args[name];
         }
         return acc;
       }, {} as Record<string, any>);
 
-    return `${tool.name}:${JSON.stringify(relevantArgs)}`;
+    if (!this.hasParameter(tool, SERVER_ARGUMENT) && args[SERVER_ARGUMENT] !== undefined) {
+      relevantArgs[SERVER_ARGUMENT] = args[SERVER_ARGUMENT];
+    }
+
+    // The path comes first so mutations can find the responses they invalidate
+    return `GET ${this.resolvePath(tool, args)} ${tool.name}:${JSON.stringify(relevantArgs)}`;
+  }
+
+  private isDryRun(tool: ApiTool, args: Record<string, any>): boolean {
+    return this.dryRun || (!this.hasParameter(tool, DRY_RUN_ARGUMENT) && args[DRY_RUN_ARGUMENT] === true);
+  }
+
+  private acceptsPaginationArguments(tool: ApiTool): boolean {
+    return !this.hasParameter(tool, FETCH_ALL_ARGUMENT) && !this.hasParameter(tool, MAX_PAGES_ARGUMENT);
+  }
+
+  private hasParameter(tool: ApiTool, name: string): boolean {
+    return tool.parameters.some((param) => ToolArguments.getName(param) === name);
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { ToolFilterRules, globToRegExp } from '../utils/index.js';
+import { ApiTool } from '../types/index.js';
+
+/**
+ * Decides which operations are exposed as tools. Each dimension (tag, path, method, operationId)
+ * must match its include list when one is given, and must not match its exclude list.
+ */
+export class ToolFilter {
+  private readonly rules: ToolFilterRules;
+  private readonly includePaths: RegExp[];
+  private readonly excludePaths: RegExp[];
+  private readonly includeOperations: RegExp[];
+  private readonly excludeOperations: RegExp[];
+
+  constructor(rules: ToolFilterRules = {}) {
+    this.rules = rules;
+    this.includePaths = (rules.includePaths || []).map((glob) => globToRegExp(glob, '/'));
+    this.excludePaths = (rules.excludePaths || []).map((glob) => globToRegExp(glob, '/'));
+    this.includeOperations = (rules.includeOperations || []).map((glob) => globToRegExp(glob, '/'));
+    this.excludeOperations = (rules.excludeOperations || []).map((glob) => globToRegExp(glob, '/'));
+  }
+
+  isAllowed(tool: ApiTool): boolean {
+    return this.getRejectionReason(tool) === null;
+  }
+
+  /**
+   * Returns the first rule that rejects the tool, or null when it is allowed
+   */
+  getRejectionReason(tool: ApiTool): string | null {
+    const tags = (tool.tags || []).map((tag) => tag.toLowerCase());
+    const method = tool.method.toLowerCase();
+    const operationId = tool.operationId || tool.name;
+
+    const includeTags = this.lowerCase(this.rules.includeTags);
+    if (includeTags.length > 0 && !tags.some((tag) => includeTags.includes(tag))) {
+      return `none of its tags are in the include list (${includeTags.join(', ')})`;
+    }
+    const excludedTag = tags.find((tag) => this.lowerCase(this.rules.excludeTags).includes(tag));
+    if (excludedTag) {
+      return `tag "${excludedTag}" is excluded`;
+    }
+
+    if (this.includePaths.length > 0 && !this.includePaths.some((pattern) => pattern.test(tool.path))) {
+      return `path ${tool.path} does not match the included paths`;
+    }
+    if (this.excludePaths.some((pattern) => pattern.test(tool.path))) {
+      return `path ${tool.path} is excluded`;
+    }
+
+    const includeMethods = this.lowerCase(this.rules.includeMethods);
+    if (includeMethods.length > 0 && !includeMethods.includes(method)) {
+      return `method ${method.toUpperCase()} is not in the include list`;
+    }
+    if (this.lowerCase(this.rules.excludeMethods).includes(method)) {
+      return `method ${method.toUpperCase()} is excluded`;
+    }
+
+    if (this.includeOperations.length > 0 && !this.includeOperations.some((pattern) => pattern.test(operationId))) {
+      return `operation ${operationId} is not in the include list`;
+    }
+    if (this.excludeOperations.some((pattern) => pattern.test(operationId))) {
+      return `operation ${operationId} is excluded`;
+    }
+
+    return null;
+  }
+
+  private lowerCase(values: string[] | undefined): string[] {
+    return (values || []).map((value) => value.toLowerCase());
+  }
+}
@@ -0,0 +1,67 @@
+import { createHash } from 'crypto';
+import { Logger } from '../utils/index.js';
+
+// Characters every MCP client accepts in tool names
+const INVALID_NAME_CHARACTERS = /[^a-zA-Z0-9_-]+/g;
+const HASH_LENGTH = 8;
+
+/**
+ * Turns operationIds (or method and path) into tool names that are valid, short enough and unique
+ * within one spec. The same spec always yields the same names.
+ */
+export class ToolNamer {
+  private readonly logger = new Logger('ToolNamer');
+  private readonly maxLength: number;
+  private readonly used = new Map<string, string>();
+
+  constructor(maxLength: number) {
+    // Room for at least a few characters and the hash suffix
+    this.maxLength = Math.max(maxLength, HASH_LENGTH * 2 + 1);
+  }
+
+  /**
+   * Returns the name for an operation; call once per operation, in spec order
+   */
+  name(method: string, path: string, operationId?: string): string {
+    const endpoint = `${method.toUpperCase()} ${path}`;
+    const base = this.fit(ToolNamer.sanitize(operationId || `${method}_${path}`));
+
+    let name = base;
+    const owner = this.used.get(name);
+    if (owner) {
+      // The endpoint is stable across spec edits, unlike a counter that depends on operation order
+      name = this.withSuffix(base, ToolNamer.hash(endpoint));
+      this.logger.warn(`Tool name ${base} of ${endpoint} is already used by ${owner}, renamed to ${name}`);
+    }
+    if (operationId && name !== operationId) {
+      this.logger.debug(`Tool for operation ${operationId} is named ${name}`);
+    }
+
+    this.used.set(name, endpoint);
+    return name;
+  }
+
+  /**
+   * Replaces runs of unsupported characters with one underscore
+   */
+  static sanitize(raw: string): string {
+    const name = raw.replace(INVALID_NAME_CHARACTERS, '_').replace(/_{2,}/g, '_').replace(/^_+|_+$/g, '');
+    return name || 'operation';
+  }
+
+  private fit(name: string): string {
+    return name.length <= this.maxLength ? name : this.withSuffix(name, ToolNamer.hash(name));
+  }
+
+  /**
+   * Appends `_<hash>`, shortening the name so the result stays within the limit
+   */
+  private withSuffix(name: string, hash: string): string {
+    const head = name.slice(0, this.maxLength - hash.length - 1).replace(/_+$/, '');
+    return `${head}_${hash}`;
+  }
+
+  private static hash(value: string): string {
+    return createHash('sha256').update(value).digest('hex').slice(0, HASH_LENGTH);
+  }
+}
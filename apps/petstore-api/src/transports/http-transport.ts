@@ -0,0 +1,292 @@
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Logger, Config } from '../utils/index.js';
+
+export const MCP_ENDPOINT = '/mcp';
+export const SSE_ENDPOINT = '/sse';
+export const SSE_MESSAGES_ENDPOINT = '/messages';
+export const HEALTH_ENDPOINT = '/health';
+
+// Upper bound for JSON-RPC request bodies
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['', '0.0.0.0', '[::]'];
+// Longest pause between idle session sweeps
+const MAX_SWEEP_INTERVAL = 60 * 1000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivity: number;
+}
+
+/**
+ * Serves MCP over Streamable HTTP (`/mcp`) with a legacy SSE fallback (`/sse` + `/messages`).
+ * Every session gets its own MCP `Server` instance from the factory.
+ */
+export class HttpTransportServer {
+  private readonly logger = new Logger('HttpTransportServer');
+  private readonly config: Config;
+  private readonly createMcpServer: () => Server;
+  private readonly getHealth: () => Record<string, any>;
+  private readonly sessions = new Map<string, Session>();
+  private httpServer: NodeHttpServer | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(config: Config, createMcpServer: () => Server, getHealth: () => Record<string, any> = () => ({})) {
+    this.config = config;
+    this.createMcpServer = createMcpServer;
+    this.getHealth = getHealth;
+  }
+
+  async start(): Promise<void> {
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.logger.error('Failed to handle HTTP request', error as Error, { method: req.method, url: req.url });
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer?.once('error', reject);
+      this.httpServer?.listen(this.config.httpPort, this.config.httpHost, () => resolve());
+    });
+
+    const idleTimeout = this.config.httpSessionIdleTimeout;
+    if (idleTimeout > 0) {
+      this.sweepTimer = setInterval(() => this.closeIdleSessions(idleTimeout), Math.min(idleTimeout, MAX_SWEEP_INTERVAL));
+      this.sweepTimer.unref();
+    }
+
+    this.logger.info('HTTP transport listening', {
+      url: `http://${this.config.httpHost}:${this.getPort()}${MCP_ENDPOINT}`,
+      sseUrl: `http://${this.config.httpHost}:${this.getPort()}${SSE_ENDPOINT}`,
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    await Promise.all(Array.from(this.sessions.values()).map((session) => session.transport.close()));
+    this.sessions.clear();
+
+    await new Promise<void>((resolve) => {
+      if (!this.httpServer) return resolve();
+      this.httpServer.close(() => resolve());
+    });
+    this.httpServer = null;
+  }
+
+  getPort(): number {
+    const address = this.httpServer?.address();
+    return typeof address === 'object' && address ? address.port : this.config.httpPort;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+
+    if (pathname !== HEALTH_ENDPOINT) {
+      const rejection = this.checkRequestOrigin(req);
+      if (rejection) {
+        this.logger.warn('Rejected HTTP request', { reason: rejection, origin: req.headers.origin, host: req.headers.host });
+        return this.sendJsonRpcError(res, 403, -32000, `Forbidden: ${rejection}`);
+      }
+    }
+
+    switch (pathname) {
+      case MCP_ENDPOINT:
+        return this.handleStreamableRequest(req, res);
+
+      case SSE_ENDPOINT:
+        if (req.method !== 'GET') return this.sendMethodNotAllowed(res, 'GET');
+        return this.handleSseConnection(res);
+
+      case SSE_MESSAGES_ENDPOINT:
+        if (req.method !== 'POST') return this.sendMethodNotAllowed(res, 'POST');
+        return this.handleSseMessage(req, res, searchParams.get('sessionId'));
+
+      case HEALTH_ENDPOINT:
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(
+          JSON.stringify({ status: 'ok', transport: 'http', sessions: this.sessions.size, ...this.getHealth() })
+        );
+        return;
+
+      default:
+        res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+    }
+  }
+
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        return this.sendJsonRpcError(res, 404, -32001, 'Session not found');
+      }
+      session.lastActivity = Date.now();
+      return session.transport.handleRequest(req, res, body);
+    }
+
+    if (req.method !== 'POST' || !this.containsInitializeRequest(body)) {
+      return this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+    }
+
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (newSessionId) => {
+        this.sessions.set(newSessionId, { transport, server, lastActivity: Date.now() });
+        this.logger.info('Session started', { sessionId: newSessionId, transport: 'streamable-http' });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+        this.logger.info('Session closed', { sessionId: transport.sessionId });
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (error) {
+      await server.close();
+      throw error;
+    }
+
+    // The transport rejected the initialize request, so no session will ever close this server
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  private async handleSseConnection(res: ServerResponse): Promise<void> {
+    const server = this.createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_ENDPOINT, res);
+    this.sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+    this.logger.info('Session started', { sessionId: transport.sessionId, transport: 'sse' });
+
+    res.on('close', () => {
+      this.sessions.delete(transport.sessionId);
+      this.logger.info('Session closed', { sessionId: transport.sessionId });
+    });
+
+    // connect() starts the transport, which writes the SSE headers and endpoint event
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      this.sessions.delete(transport.sessionId);
+      await server.close();
+      throw error;
+    }
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      res.writeHead(404).end('Session not found');
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    await session.transport.handlePostMessage(req, res, await this.readJsonBody(req));
+  }
+
+  private closeIdleSessions(idleTimeout: number): void {
+    const now = Date.now();
+    this.sessions.forEach((session, sessionId) => {
+      if (now - session.lastActivity < idleTimeout) return;
+
+      this.sessions.delete(sessionId);
+      this.logger.info('Session expired', { sessionId, idleMs: now - session.lastActivity });
+      session.server.close().catch((error) => {
+        this.logger.warn('Failed to close idle session', { sessionId, error: (error as Error).message });
+      });
+    });
+  }
+
+  /**
+   * Guards against DNS rebinding: browsers must come from an allowed Origin and the Host must name this server
+   */
+  private checkRequestOrigin(req: IncomingMessage): string | undefined {
+    const { origin, host } = req.headers;
+    if (origin !== undefined) {
+      const originUrl = this.parseHost(origin);
+      const allowed = this.config.httpAllowedOrigins
+        ? this.config.httpAllowedOrigins.some((allowedOrigin) => this.parseHost(allowedOrigin)?.origin === originUrl?.origin)
+        : LOOPBACK_HOSTS.includes(originUrl?.hostname ?? '');
+      if (!allowed) return `origin ${origin} is not allowed`;
+    }
+
+    const bindHost = this.parseHost(this.config.httpHost)?.hostname ?? '';
+    // On a wildcard address the server cannot know the names it is reached by unless they are configured
+    if (WILDCARD_HOSTS.includes(bindHost) && !this.config.httpAllowedHosts) return undefined;
+
+    const allowedHosts = [...LOOPBACK_HOSTS, bindHost, ...(this.config.httpAllowedHosts || [])
+      .map((allowedHost) => this.parseHost(allowedHost)?.hostname)];
+    if (!host || !allowedHosts.includes(this.parseHost(host)?.hostname)) {
+      return `host ${host ?? '(none)'} is not allowed`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Parses an origin, `host:port` or bare host; bare IPv6 addresses such as `::1` get their brackets added
+   */
+  private parseHost(value: string): URL | undefined {
+    const host = /^[^[/]*:[^[/]*:/.test(value) ? `[${value}]` : value;
+    try {
+      return new URL(host.includes('://') ? host : `http://${host}`);
+    } catch {
+      return undefined;
+    }
+  }
+
+  private containsInitializeRequest(body: unknown): boolean {
+    return Array.isArray(body) ? body.some((message) => isInitializeRequest(message)) : isInitializeRequest(body);
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        throw new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    const text = Buffer.concat(chunks).toString('utf-8');
+    if (!text) return undefined;
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      // Let the transport report the parse error in JSON-RPC form
+      return text;
+    }
+  }
+
+  private sendMethodNotAllowed(res: ServerResponse, allowed: string): void {
+    res.writeHead(405, { Allow: allowed }).end();
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+      JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null })
+    );
+  }
+}
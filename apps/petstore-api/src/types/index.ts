@@ -1,20 +1,32 @@
 import { OpenAPIV3 } from 'openapi-types';
+import { ValidationIssue } from '../utils/schema-validator.js';
 
 export interface ToolParameter {
   name: string;
+  // Tool argument name when `name` is shared with another parameter of the operation, e.g. `query_id`
+  argument?: string;
   description?: string;
   required: boolean;
   type: string;
-  location: 'path' | 'query' | 'header' | 'body';
+  location: 'path' | 'query' | 'header' | 'cookie' | 'body';
   schema?: any;
+  // Request body media type the executor encodes the body argument as; for parameters described with
+  // `content` instead of `schema`, the media type of that content
+  mediaType?: string;
+  // OpenAPI serialization; defaults depend on the location
+  style?: string;
+  explode?: boolean;
 }
 
 export interface ApiTool {
   name: string;
+  operationId?: string;
   description: string;
   method: string;
   path: string;
+  tags?: string[];
   parameters: ToolParameter[];
+  servers?: OpenAPIV3.ServerObject[];
   security?: any[];
   requestBody?: any;
   responses: any;
@@ -25,6 +37,32 @@ export interface ApiResponse<T = any> {
   statusText: string;
   headers: Record<string, any>;
   data: T;
+  // Set when the executor followed several pages and merged them into `data`
+  pagination?: PaginationSummary;
+  // Set when response validation is enabled
+  validation?: ResponseValidationResult;
+}
+
+export interface ResponseValidationResult {
+  valid: boolean;
+  // Key of the `responses` entry the body was checked against ('200', '4XX', 'default')
+  responseKey?: string;
+  issues: ValidationIssue[];
+}
+
+export interface PaginationSummary {
+  pages: number;
+  items: number;
+  complete: boolean;
+  stopReason?: string;
+}
+
+export interface RequestPreview {
+  method: string;
+  url: string;
+  query: Record<string, any>;
+  headers: Record<string, any>;
+  body?: any;
 }
 
 export interface ErrorResponse {
@@ -0,0 +1,351 @@
+import { createHash, randomUUID } from 'crypto';
+import { createRequire } from 'module';
+import { mkdirSync, readdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { Logger } from './logger.js';
+import { CacheConfig } from './config.js';
+
+/**
+ * One cached value with its freshness window and the validators needed to revalidate it
+ */
+export interface CacheRecord<T = any> {
+  value: T;
+  storedAt: number;
+  // Fresh until expiresAt, servable while revalidating until staleUntil, removed at evictAt
+  expiresAt: number;
+  staleUntil: number;
+  evictAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Storage backend of `Cache`; implementations only store records, expiry is decided by the caller
+ */
+export interface CacheStore {
+  get(key: string): CacheRecord | undefined;
+  set(key: string, record: CacheRecord): void;
+  delete(key: string): boolean;
+  clear(): void;
+  keys(): string[];
+  size(): number;
+  // Removes records whose evictAt has passed and returns how many were removed
+  prune(now: number): number;
+  close(): void;
+}
+
+/**
+ * JSON encoding for the persistent stores; Buffers (binary responses) survive as base64
+ */
+export class CacheRecordSerializer {
+  static stringify(data: any): string {
+    return JSON.stringify(data, (_key, value) =>
+      value && value.type === 'Buffer' && Array.isArray(value.data)
+        ? { __buffer: Buffer.from(value.data).toString('base64') }
+        : value
+    );
+  }
+
+  static parse(text: string): any {
+    return JSON.parse(text, (_key, value) =>
+      value && typeof value.__buffer === 'string' && Object.keys(value).length === 1
+        ? Buffer.from(value.__buffer, 'base64')
+        : value
+    );
+  }
+}
+
+/**
+ * In-process LRU store bounded by entry count and by the serialized size of the values
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly logger = new Logger('MemoryCacheStore');
+  // Map iteration order doubles as recency order: the first key is the least recently used
+  private readonly records = new Map<string, { record: CacheRecord; bytes: number }>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private bytes = 0;
+
+  constructor(maxEntries = Infinity, maxBytes = Infinity) {
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+  }
+
+  get(key: string): CacheRecord | undefined {
+    const entry = this.records.get(key);
+    if (!entry) return undefined;
+
+    this.records.delete(key);
+    this.records.set(key, entry);
+    return entry.record;
+  }
+
+  set(key: string, record: CacheRecord): void {
+    this.delete(key);
+
+    const bytes = this.measure(record);
+    if (bytes > this.maxBytes) {
+      this.logger.debug(`Not caching ${key}: ${bytes} bytes exceeds the store limit`);
+      return;
+    }
+
+    this.records.set(key, { record, bytes });
+    this.bytes += bytes;
+
+    while (this.records.size > this.maxEntries || this.bytes > this.maxBytes) {
+      const oldest = this.records.keys().next().value as string;
+      this.delete(oldest);
+      this.logger.debug(`Evicted least recently used entry ${oldest}`);
+    }
+  }
+
+  delete(key: string): boolean {
+    const entry = this.records.get(key);
+    if (!entry) return false;
+
+    this.records.delete(key);
+    this.bytes -= entry.bytes;
+    return true;
+  }
+
+  clear(): void {
+    this.records.clear();
+    this.bytes = 0;
+  }
+
+  keys(): string[] {
+    return Array.from(this.records.keys());
+  }
+
+  size(): number {
+    return this.records.size;
+  }
+
+  prune(now: number): number {
+    let removed = 0;
+    for (const [key, { record }] of this.records.entries()) {
+      if (record.evictAt <= now && this.delete(key)) {
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  close(): void {
+    this.clear();
+  }
+
+  private measure(record: CacheRecord): number {
+    try {
+      return Buffer.byteLength(CacheRecordSerializer.stringify(record));
+    } catch {
+      // Circular values cannot be measured; they are bounded by the entry limit only
+      return 0;
+    }
+  }
+}
+
+/**
+ * Keeps one JSON file per key in a directory, so entries survive restarts
+ */
+export class FileCacheStore implements CacheStore {
+  private readonly logger = new Logger('FileCacheStore');
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    mkdirSync(directory, { recursive: true });
+  }
+
+  get(key: string): CacheRecord | undefined {
+    return this.read(this.getFilePath(key))?.record;
+  }
+
+  set(key: string, record: CacheRecord): void {
+    const filePath = this.getFilePath(key);
+    // Written to a temporary file first so concurrent readers never see a partial entry
+    const tempPath = `${filePath}.${randomUUID()}.tmp`;
+    writeFileSync(tempPath, CacheRecordSerializer.stringify({ key, record }));
+    renameSync(tempPath, filePath);
+  }
+
+  delete(key: string): boolean {
+    const filePath = this.getFilePath(key);
+    const existed = this.read(filePath) !== undefined;
+    rmSync(filePath, { force: true });
+    return existed;
+  }
+
+  clear(): void {
+    this.listFiles().forEach((filePath) => rmSync(filePath, { force: true }));
+  }
+
+  keys(): string[] {
+    return this.listFiles()
+      .map((filePath) => this.read(filePath)?.key)
+      .filter((key): key is string => key !== undefined);
+  }
+
+  size(): number {
+    return this.listFiles().length;
+  }
+
+  prune(now: number): number {
+    let removed = 0;
+    this.listFiles().forEach((filePath) => {
+      const entry = this.read(filePath);
+      if (!entry || entry.record.evictAt <= now) {
+        rmSync(filePath, { force: true });
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  close(): void {
+    // Nothing is held open between calls
+  }
+
+  private read(filePath: string): { key: string; record: CacheRecord } | undefined {
+    let text: string;
+    try {
+      text = readFileSync(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+
+    try {
+      return CacheRecordSerializer.parse(text);
+    } catch (error) {
+      this.logger.warn(`Ignoring unreadable cache file ${filePath}`, { error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  private listFiles(): string[] {
+    return readdirSync(this.directory)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => join(this.directory, name));
+  }
+
+  private getFilePath(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+// The subset of the node:sqlite and better-sqlite3 APIs used by SqliteCacheStore; both are synchronous
+interface SqliteStatement {
+  run(...params: unknown[]): { changes: number | bigint };
+  get(...params: unknown[]): any;
+  all(...params: unknown[]): any[];
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+/**
+ * Stores records in one SQLite table shared by all APIs, separated by namespace.
+ * Uses the built-in node:sqlite module (Node.js 22.5+) or the better-sqlite3 package when installed.
+ */
+export class SqliteCacheStore implements CacheStore {
+  private readonly logger = new Logger('SqliteCacheStore');
+  private readonly database: SqliteDatabase;
+  private readonly namespace: string;
+
+  constructor(path: string, namespace = 'default') {
+    this.namespace = namespace;
+    mkdirSync(dirname(path), { recursive: true });
+    this.database = SqliteCacheStore.open(path);
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS cache_entries (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        record TEXT NOT NULL,
+        evict_at INTEGER NOT NULL,
+        PRIMARY KEY (namespace, key)
+      )
+    `);
+    this.logger.debug('Opened SQLite cache', { path, namespace });
+  }
+
+  private static open(path: string): SqliteDatabase {
+    // Loaded at runtime so the other stores work on Node.js versions without SQLite support
+    const load = createRequire(__filename);
+    try {
+      const { DatabaseSync } = load('node:sqlite');
+      return new DatabaseSync(path);
+    } catch {
+      try {
+        const Database = load('better-sqlite3');
+        return new Database(path);
+      } catch {
+        throw new Error('CACHE_STORE=sqlite requires Node.js 22.5+ (node:sqlite) or the better-sqlite3 package');
+      }
+    }
+  }
+
+  get(key: string): CacheRecord | undefined {
+    const row = this.database
+      .prepare('SELECT record FROM cache_entries WHERE namespace = ? AND key = ?')
+      .get(this.namespace, key);
+    return row ? CacheRecordSerializer.parse(row.record) : undefined;
+  }
+
+  set(key: string, record: CacheRecord): void {
+    this.database
+      .prepare('INSERT OR REPLACE INTO cache_entries (namespace, key, record, evict_at) VALUES (?, ?, ?, ?)')
+      .run(this.namespace, key, CacheRecordSerializer.stringify(record), record.evictAt);
+  }
+
+  delete(key: string): boolean {
+    const { changes } = this.database
+      .prepare('DELETE FROM cache_entries WHERE namespace = ? AND key = ?')
+      .run(this.namespace, key);
+    return Number(changes) > 0;
+  }
+
+  clear(): void {
+    this.database.prepare('DELETE FROM cache_entries WHERE namespace = ?').run(this.namespace);
+  }
+
+  keys(): string[] {
+    return this.database
+      .prepare('SELECT key FROM cache_entries WHERE namespace = ? ORDER BY key')
+      .all(this.namespace)
+      .map((row) => row.key);
+  }
+
+  size(): number {
+    return Number(
+      this.database.prepare('SELECT COUNT(*) AS count FROM cache_entries WHERE namespace = ?').get(this.namespace).count
+    );
+  }
+
+  prune(now: number): number {
+    const { changes } = this.database
+      .prepare('DELETE FROM cache_entries WHERE namespace = ? AND evict_at <= ?')
+      .run(this.namespace, now);
+    return Number(changes);
+  }
+
+  close(): void {
+    this.database.close();
+  }
+}
+
+/**
+ * Creates the store selected by CACHE_STORE; `namespace` keeps the entries of several APIs apart
+ */
+export const createCacheStore = (config: CacheConfig, namespace = 'default'): CacheStore => {
+  switch (config.store) {
+    case 'file':
+      return new FileCacheStore(join(config.directory, namespace.replace(/[^\w.-]/g, '_')));
+    case 'sqlite':
+      return new SqliteCacheStore(config.sqlitePath, namespace);
+    default:
+      return new MemoryCacheStore(config.maxEntries, config.maxBytes);
+  }
+};
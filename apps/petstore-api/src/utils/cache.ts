@@ -1,52 +1,147 @@
 import { Logger } from './logger.js';
+import { CacheStore, CacheRecord, MemoryCacheStore } from './cache-store.js';
 
-interface CacheEntry<T> {
+export interface CacheOptions {
+  // Defaults to an unbounded in-memory store
+  store?: CacheStore;
+  // How long expired entries may still be served while they are refreshed in the background
+  staleWhileRevalidate?: number;
+  // How often expired entries are swept from the store; 0 disables the timer
+  sweepInterval?: number;
+}
+
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+export interface CacheSetOptions {
+  validators?: CacheValidators;
+  // Overrides the cache-wide window, e.g. from a `stale-while-revalidate` directive
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * A cached value and how it may be used:
+ * - fresh: serve it
+ * - stale: serve it and revalidate in the background
+ * - expired: revalidate before use with a conditional request (only kept when it has validators)
+ */
+export interface CacheLookup<T> extends CacheValidators {
   data: T;
-  timestamp: number;
-  ttl: number;
+  state: 'fresh' | 'stale' | 'expired';
+}
+
+export interface CacheStats {
+  entries: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  // Expired entries renewed by a 304 response
+  refreshes: number;
 }
 
 export class Cache<T = any> {
-  private readonly cache = new Map<string, CacheEntry<T>>();
   private readonly logger = new Logger('Cache');
+  private readonly store: CacheStore;
   private readonly defaultTTL: number;
+  private readonly staleWhileRevalidate: number;
+  private readonly revalidating = new Set<string>();
+  private readonly stats = { hits: 0, staleHits: 0, misses: 0, refreshes: 0 };
+  private readonly sweepTimer?: NodeJS.Timeout;
 
-  constructor(defaultTTL = 300000) { // 5 minutes default
+  constructor(defaultTTL = 300000, options: CacheOptions = {}) { // 5 minutes default
     this.defaultTTL = defaultTTL;
-    
-    // Clean up expired entries every minute
-    setInterval(() => this.cleanup(), 60000);
+    this.store = options.store || new MemoryCacheStore();
+    this.staleWhileRevalidate = options.staleWhileRevalidate || 0;
+
+    // Clean up expired entries every minute; unref'd so an idle cache never keeps the process alive
+    const sweepInterval = options.sweepInterval ?? 60000;
+    if (sweepInterval > 0) {
+      this.sweepTimer = setInterval(() => this.cleanup(), sweepInterval);
+      this.sweepTimer.unref();
+    }
   }
 
-  set(key: string, data: T, ttl?: number): void {
-    const entry: CacheEntry<T> = {
-      data,
-      timestamp: Date.now(),
-      ttl: ttl || this.defaultTTL,
-    };
-    
-    this.cache.set(key, entry);
-    this.logger.debug(`Cache set: ${key}`, { ttl: entry.ttl });
+  set(key: string, data: T, ttl?: number, options: CacheSetOptions = {}): void {
+    const now = Date.now();
+    const entryTTL = ttl ?? this.defaultTTL;
+    const expiresAt = now + entryTTL;
+    const staleUntil = expiresAt + (options.staleWhileRevalidate ?? this.staleWhileRevalidate);
+    const { etag, lastModified } = options.validators || {};
+    // Entries with validators outlive their TTL so a conditional request can renew them cheaply
+    const evictAt =
+      etag || lastModified ? Math.max(staleUntil, expiresAt + Math.max(entryTTL, this.defaultTTL)) : staleUntil;
+
+    this.store.set(key, { value: data, storedAt: now, expiresAt, staleUntil, evictAt, etag, lastModified });
+    this.logger.debug(`Cache set: ${key}`, { ttl: entryTTL });
   }
 
+  /**
+   * Returns the value only while it is fresh
+   */
   get(key: string): T | null {
-    const entry = this.cache.get(key);
-    
-    if (!entry) {
+    const entry = this.lookup(key);
+    return entry?.state === 'fresh' ? entry.data : null;
+  }
+
+  /**
+   * Returns the value with its freshness state, including stale and expired entries that can be revalidated
+   */
+  lookup(key: string): CacheLookup<T> | undefined {
+    const record = this.store.get(key) as CacheRecord<T> | undefined;
+
+    if (!record) {
+      this.stats.misses++;
       this.logger.debug(`Cache miss: ${key}`);
-      return null;
+      return undefined;
     }
 
-    const isExpired = Date.now() - entry.timestamp > entry.ttl;
-    
-    if (isExpired) {
-      this.cache.delete(key);
+    const now = Date.now();
+    if (record.evictAt <= now) {
+      this.stats.misses++;
+      this.store.delete(key);
       this.logger.debug(`Cache expired: ${key}`);
-      return null;
+      return undefined;
     }
 
-    this.logger.debug(`Cache hit: ${key}`);
-    return entry.data;
+    const state = now < record.expiresAt ? 'fresh' : now < record.staleUntil ? 'stale' : 'expired';
+    if (state === 'fresh') this.stats.hits++;
+    else if (state === 'stale') this.stats.staleHits++;
+    else this.stats.misses++;
+    this.logger.debug(`Cache ${state === 'fresh' ? 'hit' : state}: ${key}`);
+    return { data: record.value, state, etag: record.etag, lastModified: record.lastModified };
+  }
+
+  /**
+   * Restarts the TTL of an entry that the origin confirmed unchanged (HTTP 304) and returns its value
+   */
+  refresh(key: string, ttl?: number, options: CacheSetOptions = {}): T | null {
+    const record = this.store.get(key) as CacheRecord<T> | undefined;
+    if (!record) return null;
+
+    this.stats.refreshes++;
+    this.set(key, record.value, ttl, {
+      ...options,
+      validators: {
+        etag: options.validators?.etag || record.etag,
+        lastModified: options.validators?.lastModified || record.lastModified,
+      },
+    });
+    return record.value;
+  }
+
+  /**
+   * Runs `refresh` in the background unless the key is already being revalidated; failures are only logged
+   */
+  revalidate(key: string, refresh: () => Promise<unknown>): void {
+    if (this.revalidating.has(key)) return;
+
+    this.revalidating.add(key);
+    this.logger.debug(`Revalidating stale entry: ${key}`);
+    refresh()
+      .catch((error) => this.logger.warn(`Background revalidation of ${key} failed`, { error: (error as Error).message }))
+      .finally(() => this.revalidating.delete(key));
   }
 
   has(key: string): boolean {
@@ -54,29 +149,51 @@ export class Cache<T = any> {
   }
 
   delete(key: string): boolean {
-    const result = this.cache.delete(key);
+    const result = this.store.delete(key);
     if (result) {
       this.logger.debug(`Cache deleted: ${key}`);
     }
     return result;
   }
 
+  /**
+   * Deletes every key the predicate matches and returns how many were removed
+   */
+  deleteWhere(predicate: (key: string) => boolean): number {
+    const keys = this.store.keys().filter(predicate);
+    keys.forEach((key) => this.store.delete(key));
+    if (keys.length > 0) {
+      this.logger.debug(`Cache deleted ${keys.length} entries`, { keys });
+    }
+    return keys.length;
+  }
+
   clear(): void {
-    const size = this.cache.size;
-    this.cache.clear();
+    const size = this.store.size();
+    this.store.clear();
     this.logger.info(`Cache cleared`, { entriesRemoved: size });
   }
 
-  private cleanup(): void {
-    const now = Date.now();
-    let removed = 0;
+  keys(): string[] {
+    return this.store.keys();
+  }
+
+  getStats(): CacheStats {
+    return { entries: this.store.size(), ...this.stats };
+  }
 
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
-        removed++;
-      }
+  /**
+   * Stops the sweep timer and releases the store
+   */
+  dispose(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
     }
+    this.store.close();
+  }
+
+  private cleanup(): void {
+    const removed = this.store.prune(Date.now());
 
     if (removed > 0) {
       this.logger.debug(`Cache cleanup completed`, { entriesRemoved: removed });
@@ -84,6 +201,78 @@ export class Cache<T = any> {
   }
 
   size(): number {
-    return this.cache.size;
+    return this.store.size();
+  }
+}
+
+/**
+ * Derives how long a response may be cached from its Cache-Control, Expires and validator headers
+ */
+export class HttpCachePolicy {
+  /**
+   * @param defaultTTL Used when the response carries no explicit freshness information
+   */
+  static fromHeaders(
+    headers: Record<string, any> = {},
+    defaultTTL: number
+  ): { storable: boolean; ttl: number; options: CacheSetOptions } {
+    const directives = HttpCachePolicy.parseCacheControl(HttpCachePolicy.getHeader(headers, 'cache-control'));
+    const validators: CacheValidators = {
+      etag: HttpCachePolicy.getHeader(headers, 'etag'),
+      lastModified: HttpCachePolicy.getHeader(headers, 'last-modified'),
+    };
+    const hasValidators = !!(validators.etag || validators.lastModified);
+    const staleWhileRevalidate =
+      directives['stale-while-revalidate'] !== undefined ? Number(directives['stale-while-revalidate']) * 1000 : undefined;
+    const options: CacheSetOptions = { validators, staleWhileRevalidate };
+
+    if ('no-store' in directives) {
+      return { storable: false, ttl: 0, options };
+    }
+    // no-cache allows storing but every use must be revalidated, which needs a validator
+    if ('no-cache' in directives) {
+      return { storable: hasValidators, ttl: 0, options };
+    }
+
+    const maxAge = directives['s-maxage'] ?? directives['max-age'];
+    if (maxAge !== undefined) {
+      const age = Number(HttpCachePolicy.getHeader(headers, 'age') || 0);
+      return { storable: true, ttl: Math.max(0, Number(maxAge) - age) * 1000, options };
+    }
+
+    const expires = HttpCachePolicy.getHeader(headers, 'expires');
+    if (expires) {
+      const date = Date.parse(HttpCachePolicy.getHeader(headers, 'date') || '') || Date.now();
+      const expiresAt = Date.parse(expires);
+      // Invalid dates such as "0" mean already expired
+      return { storable: true, ttl: Number.isNaN(expiresAt) ? 0 : Math.max(0, expiresAt - date), options };
+    }
+
+    return { storable: true, ttl: defaultTTL, options };
   }
-} 
\ No newline at end of file
+
+  /**
+   * Builds If-None-Match / If-Modified-Since from the validators of a cached response
+   */
+  static getConditionalHeaders(validators: CacheValidators): Record<string, string> {
+    const headers: Record<string, string> = {};
+    if (validators.etag) headers['If-None-Match'] = validators.etag;
+    if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+    return headers;
+  }
+
+  static parseCacheControl(value?: string): Record<string, string | undefined> {
+    const directives: Record<string, string | undefined> = {};
+    (value || '').split(',').forEach((part) => {
+      const [name, argument] = part.split('=');
+      if (!name.trim()) return;
+      directives[name.trim().toLowerCase()] = argument?.trim().replace(/^"|"$/g, '');
+    });
+    return directives;
+  }
+
+  private static getHeader(headers: Record<string, any>, name: string): string | undefined {
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+    return key && headers[key] !== undefined && headers[key] !== null ? String(headers[key]) : undefined;
+  }
+}
@@ -0,0 +1,89 @@
+import { Logger } from './logger.js';
+import { CircuitBreakerConfig } from './config.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Thrown instead of sending a request while the breaker of its host is open
+ */
+export class CircuitOpenError extends Error {
+  readonly host: string;
+  readonly retryAt: number;
+
+  constructor(host: string, failures: number, retryAt: number) {
+    super(
+      `Upstream unavailable: ${host} failed ${failures} times in a row, requests are paused until ${new Date(
+        retryAt
+      ).toISOString()}`
+    );
+    this.name = 'CircuitOpenError';
+    this.host = host;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Per-host breaker: opens after consecutive failures (network errors and 5xx), lets one probe through
+ * once the reset timeout has passed (half-open) and closes again when the probe succeeds
+ */
+export class CircuitBreaker {
+  private readonly logger = new Logger('CircuitBreaker');
+  private readonly host: string;
+  private readonly config: CircuitBreakerConfig;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  // Start of the current half-open probe; a probe that never reports is replaced after resetTimeout
+  private probeStartedAt = 0;
+
+  constructor(host: string, config: CircuitBreakerConfig) {
+    this.host = host;
+    this.config = config;
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Throws CircuitOpenError unless a request may be sent now
+   */
+  assertAvailable(): void {
+    if (this.config.failureThreshold <= 0 || this.state === 'closed') return;
+
+    const now = Date.now();
+    if (this.state === 'open' && now - this.openedAt >= this.config.resetTimeout) {
+      this.state = 'half-open';
+      this.logger.info(`Circuit for ${this.host} is half-open, sending a probe request`);
+    }
+
+    if (this.state === 'half-open' && now - this.probeStartedAt >= this.config.resetTimeout) {
+      this.probeStartedAt = now;
+      return;
+    }
+
+    throw new CircuitOpenError(this.host, this.failures, this.openedAt + this.config.resetTimeout);
+  }
+
+  record(success: boolean): void {
+    if (this.config.failureThreshold <= 0) return;
+
+    if (success) {
+      if (this.state !== 'closed') {
+        this.logger.info(`Circuit for ${this.host} closed`);
+      }
+      this.state = 'closed';
+      this.failures = 0;
+      this.probeStartedAt = 0;
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.config.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.probeStartedAt = 0;
+      this.logger.warn(`Circuit for ${this.host} opened`, { failures: this.failures, resetTimeout: this.config.resetTimeout });
+    }
+  }
+}
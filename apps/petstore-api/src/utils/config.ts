@@ -1,21 +1,477 @@
+import { readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+/**
+ * Credentials for one OpenAPI security scheme, keyed in `Config.authCredentials` by normalized scheme name
+ */
+export interface AuthCredentials {
+  apiKey?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+  clientId?: string;
+  clientSecret?: string;
+  tokenUrl?: string;
+  scopes?: string[];
+}
+
+/**
+ * Include/exclude rules deciding which operations become tools; paths and operationIds accept globs
+ */
+export interface ToolFilterRules {
+  includeTags?: string[];
+  excludeTags?: string[];
+  includePaths?: string[];
+  excludePaths?: string[];
+  includeMethods?: string[];
+  excludeMethods?: string[];
+  includeOperations?: string[];
+  excludeOperations?: string[];
+}
+
+/**
+ * How an operation pages through results; detected from the spec unless configured per operationId
+ */
+export interface PaginationConfig {
+  type: 'page' | 'offset' | 'cursor' | 'link';
+  // page: page number parameter, optional page size parameter and first page number (default 1)
+  pageParam?: string;
+  sizeParam?: string;
+  startPage?: number;
+  // offset: offset parameter and optional limit parameter
+  offsetParam?: string;
+  limitParam?: string;
+  // cursor: request parameter and dotted path of the next cursor in the response body
+  cursorParam?: string;
+  nextCursorPath?: string;
+  // Dotted path of the item array in the response body; defaults to the body or its only array property
+  itemsPath?: string;
+}
+
+export interface PaginationLimits {
+  maxPages: number;
+  maxItems: number;
+  maxBytes: number;
+}
+
+/**
+ * Throttling applied per target host
+ */
+export interface RateLimitConfig {
+  // Sustained requests per second; 0 disables the token bucket
+  requestsPerSecond: number;
+  // Requests allowed at once above the sustained rate; defaults to requestsPerSecond
+  burst: number;
+  // Requests in flight at the same time; 0 means unlimited
+  maxConcurrency: number;
+  // Longest Retry-After or rate-limit reset (ms) waited for before failing instead
+  maxWait: number;
+}
+
+export interface CircuitBreakerConfig {
+  // Consecutive failures (network errors, 5xx) that open the breaker of a host; 0 disables it
+  failureThreshold: number;
+  // How long an open breaker fails fast before letting a probe request through (ms)
+  resetTimeout: number;
+}
+
+export interface ClientCertificate {
+  certFile: string;
+  keyFile: string;
+  passphrase?: string;
+}
+
+/**
+ * Proxy and TLS settings shared by spec downloads, token requests and tool calls
+ */
+export interface NetworkConfig {
+  // Proxies for http:// and https:// targets
+  httpProxy?: string;
+  httpsProxy?: string;
+  // Hosts reached directly; entries match subdomains too and `*` disables the proxy
+  noProxy: string[];
+  // PEM bundles trusted on top of the system CAs
+  caFiles: string[];
+  // Presented to every HTTPS host without an entry in clientCertificates
+  clientCertificate?: ClientCertificate;
+  // Keyed by host, optionally with port
+  clientCertificates: Record<string, ClientCertificate>;
+  // Skip certificate verification, for local development only
+  insecure: boolean;
+}
+
+/**
+ * One entry of the APIS_CONFIG_PATH file; omitted fields fall back to the global configuration
+ */
+export interface ApiDefinition {
+  name: string;
+  specUrl?: string;
+  specPath?: string;
+  baseUrl?: string;
+  serverVariables?: Record<string, string>;
+  auth?: Record<string, AuthCredentials>;
+  toolFilter?: ToolFilterRules;
+  pagination?: Record<string, PaginationConfig>;
+  cacheTTL?: number;
+  specRefreshInterval?: number;
+  rateLimit?: Partial<RateLimitConfig>;
+}
+
+export type CacheStoreType = 'memory' | 'file' | 'sqlite';
+
+export interface CacheConfig {
+  store: CacheStoreType;
+  // Directory of the file store, one subdirectory per API
+  directory: string;
+  // Database file of the SQLite store
+  sqlitePath: string;
+  // Limits of the in-memory LRU store
+  maxEntries: number;
+  maxBytes: number;
+  // How long expired entries may still be served while they are refreshed in the background
+  staleWhileRevalidate: number;
+}
+
+export type TransportType = 'stdio' | 'http';
+
+// prefix: flat arguments, location-prefixed only when names clash; group: arguments nested by location
+export type ArgumentNaming = 'prefix' | 'group';
+
+// off: run everything; read-only: block POST/PUT/PATCH/DELETE; confirm: require a preview + token round trip
+export type SafeMode = 'off' | 'read-only' | 'confirm';
+
 export interface Config {
   petstoreApiBase: string;
   openApiSpecUrl: string;
+  openApiSpecPath?: string;
+  apiBaseUrl?: string;
+  serverVariables?: Record<string, string>;
+  authCredentials: Record<string, AuthCredentials>;
+  apis?: ApiDefinition[];
+  toolFilter: ToolFilterRules;
+  // Longest tool name (clients commonly reject more than 64 characters) and description (0 for unlimited)
+  toolNameMaxLength: number;
+  toolDescriptionMaxLength: number;
+  argumentNaming: ArgumentNaming;
+  safeMode: SafeMode;
+  dryRun: boolean;
+  fileUploadRoot?: string;
+  responseTokenBudget: number;
+  validateResponses: boolean;
+  pagination: Record<string, PaginationConfig>;
+  paginationLimits: PaginationLimits;
   cacheTTL: number;
+  cache: CacheConfig;
+  // How often the spec is reloaded (ms, 0 disables) and whether local spec files are watched
+  specRefreshInterval: number;
+  specWatch: boolean;
+  rateLimit: RateLimitConfig;
   maxRetries: number;
   retryDelay: number;
+  // Upper bound of the full-jitter backoff between retries
+  retryMaxDelay: number;
+  // Send an Idempotency-Key with POST and PATCH requests, which also makes them safe to retry
+  idempotencyKeys: boolean;
+  circuitBreaker: CircuitBreakerConfig;
+  network: NetworkConfig;
   requestTimeout: number;
+  transport: TransportType;
+  httpPort: number;
+  httpHost: string;
+  // Browser origins allowed to call the HTTP transport; defaults to localhost origins
+  httpAllowedOrigins?: string[];
+  // Host header values accepted besides loopback names and httpHost
+  httpAllowedHosts?: string[];
+  // Sessions without a request for this long are closed; 0 keeps them until the client disconnects
+  httpSessionIdleTimeout: number;
 }
 
+const parseTransport = (value: string | undefined): TransportType => {
+  if (!value) return 'stdio';
+  if (value !== 'stdio' && value !== 'http') {
+    throw new Error(`MCP_TRANSPORT must be "stdio" or "http", got "${value}"`);
+  }
+  return value;
+};
+
+const parseSafeMode = (value: string | undefined): SafeMode => {
+  if (!value) return 'off';
+  if (value !== 'off' && value !== 'read-only' && value !== 'confirm') {
+    throw new Error(`SAFE_MODE must be "off", "read-only" or "confirm", got "${value}"`);
+  }
+  return value;
+};
+
+const parseArgumentNaming = (value: string | undefined): ArgumentNaming => {
+  if (!value) return 'prefix';
+  if (value === 'prefix' || value === 'group') return value;
+  throw new Error(`Invalid ARGUMENT_NAMING "${value}", expected prefix or group`);
+};
+
+const parseCacheStore = (value: string | undefined): CacheStoreType => {
+  if (!value) return 'memory';
+  if (value !== 'memory' && value !== 'file' && value !== 'sqlite') {
+    throw new Error(`CACHE_STORE must be "memory", "file" or "sqlite", got "${value}"`);
+  }
+  return value;
+};
+
+const loadCacheConfig = (): CacheConfig => {
+  const directory = process.env.CACHE_DIR || join(tmpdir(), 'petstore-mcp-cache');
+  return {
+    store: parseCacheStore(process.env.CACHE_STORE),
+    directory,
+    sqlitePath: process.env.CACHE_SQLITE_PATH || join(directory, 'cache.sqlite'),
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10),
+    maxBytes: parseInt(process.env.CACHE_MAX_BYTES || '52428800', 10), // 50 MB
+    staleWhileRevalidate: parseInt(process.env.CACHE_STALE_WHILE_REVALIDATE || '0', 10),
+  };
+};
+
+const parseBooleanEnv = (name: string): boolean => {
+  const value = process.env[name]?.toLowerCase();
+  return value === 'true' || value === '1';
+};
+
+const parseListEnv = (name: string): string[] | undefined => {
+  const value = process.env[name];
+  if (!value) return undefined;
+  return value.split(',').map((item) => item.trim()).filter(Boolean);
+};
+
+const loadToolFilterRules = (): ToolFilterRules => ({
+  includeTags: parseListEnv('TOOLS_INCLUDE_TAGS'),
+  excludeTags: parseListEnv('TOOLS_EXCLUDE_TAGS'),
+  includePaths: parseListEnv('TOOLS_INCLUDE_PATHS'),
+  excludePaths: parseListEnv('TOOLS_EXCLUDE_PATHS'),
+  includeMethods: parseListEnv('TOOLS_INCLUDE_METHODS'),
+  excludeMethods: parseListEnv('TOOLS_EXCLUDE_METHODS'),
+  includeOperations: parseListEnv('TOOLS_INCLUDE_OPERATIONS'),
+  excludeOperations: parseListEnv('TOOLS_EXCLUDE_OPERATIONS'),
+});
+
+const parseJsonEnv = <T>(name: string): T | undefined => {
+  const value = process.env[name];
+  if (!value) return undefined;
+
+  try {
+    return JSON.parse(value) as T;
+  } catch (error) {
+    throw new Error(`Environment variable ${name} must be valid JSON: ${(error as Error).message}`);
+  }
+};
+
+const loadNetworkConfig = (): NetworkConfig => {
+  const certFile = process.env.TLS_CERT_FILE;
+  const keyFile = process.env.TLS_KEY_FILE;
+  if (!!certFile !== !!keyFile) {
+    throw new Error('TLS_CERT_FILE and TLS_KEY_FILE must be set together');
+  }
+
+  return {
+    // Lowercase variants are what most tools on Linux read
+    httpProxy: process.env.HTTP_PROXY || process.env.http_proxy || undefined,
+    httpsProxy: process.env.HTTPS_PROXY || process.env.https_proxy || undefined,
+    noProxy: (process.env.NO_PROXY || process.env.no_proxy || '')
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    caFiles: parseListEnv('TLS_CA_FILE') || [],
+    clientCertificate:
+      certFile && keyFile ? { certFile, keyFile, passphrase: process.env.TLS_KEY_PASSPHRASE || undefined } : undefined,
+    clientCertificates: parseJsonEnv<Record<string, ClientCertificate>>('TLS_CLIENT_CERTS') || {},
+    insecure: parseBooleanEnv('TLS_INSECURE'),
+  };
+};
+
+// Environment variable suffixes, longest first so CLIENT_SECRET wins over a shorter match
+const AUTH_ENV_FIELDS: Array<[string, keyof AuthCredentials]> = [
+  ['CLIENT_SECRET', 'clientSecret'],
+  ['CLIENT_ID', 'clientId'],
+  ['TOKEN_URL', 'tokenUrl'],
+  ['PASSWORD', 'password'],
+  ['USERNAME', 'username'],
+  ['API_KEY', 'apiKey'],
+  ['SCOPES', 'scopes'],
+  ['TOKEN', 'token'],
+];
+
+/**
+ * Normalizes a security scheme name the way it appears in environment variables (petstore_auth -> PETSTORE_AUTH)
+ */
+export const toAuthSchemeKey = (schemeName: string): string =>
+  schemeName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+
+/**
+ * Reads credentials from the AUTH_CONFIG_PATH JSON file, then from AUTH_<SCHEME>_<FIELD> variables which take precedence
+ */
+const loadAuthCredentials = (): Record<string, AuthCredentials> => {
+  const credentials: Record<string, AuthCredentials> = {};
+
+  const configPath = process.env.AUTH_CONFIG_PATH;
+  if (configPath) {
+    try {
+      const fileCredentials = JSON.parse(readFileSync(configPath, 'utf-8')) as Record<string, AuthCredentials>;
+      Object.entries(fileCredentials).forEach(([schemeName, schemeCredentials]) => {
+        credentials[toAuthSchemeKey(schemeName)] = { ...schemeCredentials };
+      });
+    } catch (error) {
+      throw new Error(`Failed to read auth config ${configPath}: ${(error as Error).message}`);
+    }
+  }
+
+  Object.entries(process.env).forEach(([name, value]) => {
+    if (!name.startsWith('AUTH_') || name === 'AUTH_CONFIG_PATH' || !value) return;
+
+    const field = AUTH_ENV_FIELDS.find(([suffix]) => name.endsWith(`_${suffix}`) && name.length > `AUTH__${suffix}`.length);
+    if (!field) return;
+
+    const [suffix, key] = field;
+    const schemeKey = name.slice('AUTH_'.length, -(suffix.length + 1));
+    const schemeCredentials = (credentials[schemeKey] ??= {});
+    if (key === 'scopes') {
+      schemeCredentials.scopes = value.split(/[\s,]+/).filter(Boolean);
+    } else {
+      schemeCredentials[key] = value;
+    }
+  });
+
+  return credentials;
+};
+
+const API_NAME_PATTERN = /^[a-zA-Z0-9-]+(_[a-zA-Z0-9-]+)*$/;
+
+/**
+ * Replaces ${VAR} references in string values so the APIs file can point at secrets instead of containing them
+ */
+const interpolateEnv = <T>(value: T): T => {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => process.env[name] ?? '') as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolateEnv(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateEnv(item)])) as T;
+  }
+  return value;
+};
+
+const loadApiDefinitions = (): ApiDefinition[] | undefined => {
+  const configPath = process.env.APIS_CONFIG_PATH;
+  if (!configPath) return undefined;
+
+  let definitions: ApiDefinition[];
+  try {
+    definitions = interpolateEnv(JSON.parse(readFileSync(configPath, 'utf-8')).apis);
+  } catch (error) {
+    throw new Error(`Failed to read APIs config ${configPath}: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(definitions) || definitions.length === 0) {
+    throw new Error(`APIs config ${configPath} must contain a non-empty "apis" array`);
+  }
+
+  const names = new Set<string>();
+  definitions.forEach((definition) => {
+    // Names become tool prefixes joined with "__", so they must not contain that separator themselves
+    if (!definition.name || !API_NAME_PATTERN.test(definition.name)) {
+      throw new Error(`Invalid API name "${definition.name}": use letters, digits, "-" and single "_"`);
+    }
+    if (names.has(definition.name)) {
+      throw new Error(`Duplicate API name "${definition.name}" in ${configPath}`);
+    }
+    if (!definition.specUrl && !definition.specPath) {
+      throw new Error(`API "${definition.name}" needs a specUrl or specPath`);
+    }
+    names.add(definition.name);
+  });
+
+  return definitions;
+};
+
+/**
+ * Derives the configuration of one API in multi-API mode from the global configuration
+ */
+export const getApiConfig = (config: Config, definition: ApiDefinition): Config => {
+  const authCredentials: Record<string, AuthCredentials> = {};
+  // Credentials are never shared between APIs, so only the definition's own auth section applies
+  Object.entries(definition.auth || {}).forEach(([schemeName, credentials]) => {
+    authCredentials[toAuthSchemeKey(schemeName)] = { ...credentials };
+  });
+
+  return {
+    ...config,
+    // Relative server URLs resolve against the host serving the spec
+    petstoreApiBase: definition.specUrl && /^https?:\/\//i.test(definition.specUrl)
+      ? new URL(definition.specUrl).origin
+      : config.petstoreApiBase,
+    openApiSpecUrl: definition.specUrl || config.openApiSpecUrl,
+    openApiSpecPath: definition.specPath,
+    apiBaseUrl: definition.baseUrl,
+    serverVariables: definition.serverVariables,
+    authCredentials,
+    apis: undefined,
+    toolFilter: definition.toolFilter ?? config.toolFilter,
+    pagination: definition.pagination ?? config.pagination,
+    cacheTTL: definition.cacheTTL ?? config.cacheTTL,
+    specRefreshInterval: definition.specRefreshInterval ?? config.specRefreshInterval,
+    rateLimit: { ...config.rateLimit, ...definition.rateLimit },
+  };
+};
+
 export const getConfig = (): Config => {
   const petstoreApiBase = process.env.PETSTORE_API_BASE || 'https://petstore3.swagger.io';
   
   return {
     petstoreApiBase,
-    openApiSpecUrl: `${petstoreApiBase}/api/v3/openapi.json`,
+    openApiSpecUrl: process.env.OPENAPI_SPEC_URL || `${petstoreApiBase}/api/v3/openapi.json`,
+    openApiSpecPath: process.env.OPENAPI_SPEC_PATH || undefined, // Local JSON/YAML file, takes precedence over the URL
+    apiBaseUrl: process.env.API_BASE_URL || undefined, // Replaces the spec's servers block entirely
+    serverVariables: parseJsonEnv<Record<string, string>>('SERVER_VARIABLES'),
+    authCredentials: loadAuthCredentials(),
+    apis: loadApiDefinitions(), // Multi-API mode when set
+    toolFilter: loadToolFilterRules(),
+    toolNameMaxLength: parseInt(process.env.TOOL_NAME_MAX_LENGTH || '64', 10),
+    toolDescriptionMaxLength: parseInt(process.env.TOOL_DESCRIPTION_MAX_LENGTH || '1024', 10),
+    argumentNaming: parseArgumentNaming(process.env.ARGUMENT_NAMING),
+    safeMode: parseSafeMode(process.env.SAFE_MODE),
+    dryRun: parseBooleanEnv('DRY_RUN'), // Build requests without sending them, for every tool call
+    fileUploadRoot: process.env.FILE_UPLOAD_ROOT || undefined, // Required for {"path": ...} uploads, which must stay inside it
+    responseTokenBudget: parseInt(process.env.RESPONSE_TOKEN_BUDGET || '8000', 10), // 0 disables truncation
+    validateResponses: parseBooleanEnv('VALIDATE_RESPONSES'), // Check bodies against the declared response schemas
+    pagination: parseJsonEnv<Record<string, PaginationConfig>>('PAGINATION_CONFIG') || {}, // Keyed by operationId
+    paginationLimits: {
+      maxPages: parseInt(process.env.PAGINATION_MAX_PAGES || '50', 10),
+      maxItems: parseInt(process.env.PAGINATION_MAX_ITEMS || '1000', 10),
+      maxBytes: parseInt(process.env.PAGINATION_MAX_BYTES || '5242880', 10), // 5 MB
+    },
     cacheTTL: parseInt(process.env.CACHE_TTL || '300000', 10), // 5 minutes default
+    cache: loadCacheConfig(),
+    specRefreshInterval: parseInt(process.env.SPEC_REFRESH_INTERVAL || '0', 10),
+    specWatch: parseBooleanEnv('SPEC_WATCH'),
+    rateLimit: {
+      requestsPerSecond: parseFloat(process.env.RATE_LIMIT_RPS || '0'),
+      burst: parseInt(process.env.RATE_LIMIT_BURST || '0', 10),
+      maxConcurrency: parseInt(process.env.RATE_LIMIT_MAX_CONCURRENCY || '8', 10),
+      maxWait: parseInt(process.env.RATE_LIMIT_MAX_WAIT || '60000', 10),
+    },
     maxRetries: parseInt(process.env.MAX_RETRIES || '3', 10),
     retryDelay: parseInt(process.env.RETRY_DELAY || '1000', 10),
+    retryMaxDelay: parseInt(process.env.RETRY_MAX_DELAY || '30000', 10),
+    idempotencyKeys: parseBooleanEnv('IDEMPOTENCY_KEYS'),
+    circuitBreaker: {
+      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+      resetTimeout: parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000', 10),
+    },
+    network: loadNetworkConfig(),
     requestTimeout: parseInt(process.env.REQUEST_TIMEOUT || '30000', 10),
+    transport: parseTransport(process.env.MCP_TRANSPORT),
+    httpPort: parseInt(process.env.MCP_PORT || '3000', 10),
+    httpHost: process.env.MCP_HOST || '127.0.0.1', // Use 0.0.0.0 to accept connections from other machines
+    httpAllowedOrigins: parseListEnv('MCP_ALLOWED_ORIGINS'),
+    httpAllowedHosts: parseListEnv('MCP_ALLOWED_HOSTS'),
+    httpSessionIdleTimeout: parseInt(process.env.MCP_SESSION_IDLE_TIMEOUT || '1800000', 10), // 30 minutes
   };
 }; 
\ No newline at end of file
@@ -0,0 +1,25 @@
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Converts a glob into an anchored RegExp. `*` matches any run of characters and `?` a single one; with a
+ * `separator` both stay within one segment and only `**` crosses segments.
+ */
+export const globToRegExp = (glob: string, separator?: string): RegExp => {
+  const wildcard = separator ? `[^${escapeRegExp(separator)}]` : '.';
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += `${wildcard}*`;
+    } else if (char === '?') {
+      pattern += wildcard;
+    } else {
+      pattern += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+};
@@ -1,16 +1,36 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
 import { Logger } from './logger.js';
-import { Config } from './config.js';
+import { Config, RateLimitConfig, CircuitBreakerConfig } from './config.js';
+import { RateLimiter } from './rate-limiter.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { NetworkAgents } from './network-agents.js';
+
+const IDEMPOTENT_METHODS = new Set(['get', 'head', 'options', 'put', 'delete', 'trace']);
+
+export interface RequestOptions {
+  // Limits of the API making the request; defaults to the global ones
+  rateLimit?: RateLimitConfig;
+}
 
 export class HttpClient {
   private readonly client: AxiosInstance;
   private readonly logger = new Logger('HttpClient');
   private readonly maxRetries: number;
   private readonly retryDelay: number;
+  private readonly rateLimit: RateLimitConfig;
+  private readonly retryMaxDelay: number;
+  private readonly circuitBreaker: CircuitBreakerConfig;
+  private readonly limiters = new Map<string, RateLimiter>();
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly networkAgents: NetworkAgents;
 
   constructor(config: Config) {
     this.maxRetries = config.maxRetries;
     this.retryDelay = config.retryDelay;
+    this.rateLimit = config.rateLimit;
+    this.retryMaxDelay = config.retryMaxDelay;
+    this.circuitBreaker = config.circuitBreaker;
+    this.networkAgents = new NetworkAgents(config.network);
 
     this.client = axios.create({
       timeout: config.requestTimeout,
@@ -62,42 +82,141 @@ export class HttpClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
-  private shouldRetry(error: any, attempt: number): boolean {
-    if (attempt >= this.maxRetries) return false;
+  /**
+   * Idempotent methods may be retried; POST and PATCH only when they carry an Idempotency-Key
+   */
+  private isRetryable(config: AxiosRequestConfig): boolean {
+    const method = (config.method || 'get').toLowerCase();
+    if (IDEMPOTENT_METHODS.has(method)) return true;
+    return Object.keys(config.headers || {}).some((header) => header.toLowerCase() === 'idempotency-key');
+  }
+
+  /**
+   * Decides whether a failed attempt is retried and after how long; throttled retries pause the whole host
+   */
+  private getRetry(
+    response: AxiosResponse | undefined,
+    attempt: number,
+    retryable: boolean,
+    limits: RateLimitConfig
+  ): { delay: number; throttled: boolean } | undefined {
+    if (attempt >= this.maxRetries) return undefined;
+
+    // A 429 means the request was not processed, so it is safe to repeat for any method
+    const throttleDelay = response ? this.getThrottleDelay(response, attempt) : undefined;
+    if (throttleDelay !== undefined && (retryable || response?.status === 429)) {
+      return throttleDelay <= limits.maxWait ? { delay: throttleDelay, throttled: true } : undefined;
+    }
 
-    // Retry on network errors or 5xx server errors
-    if (!error.response) return true; // Network error
-    
-    const status = error.response.status;
-    return status >= 500 && status < 600;
+    // Network errors and 5xx
+    if (retryable && (!response || response.status >= 500)) {
+      // Full jitter: anywhere between 0 and the capped exponential delay, so clients do not retry in lockstep
+      const ceiling = Math.min(this.retryMaxDelay, this.retryDelay * Math.pow(2, attempt));
+      return { delay: Math.round(Math.random() * ceiling), throttled: false };
+    }
+    return undefined;
   }
 
-  async request<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    let lastError: any;
-    
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+  /**
+   * Returns how long a throttled (429/503) response asks to wait, from Retry-After or the backoff for 429s
+   */
+  private getThrottleDelay(response: AxiosResponse, attempt: number): number | undefined {
+    if (response.status !== 429 && response.status !== 503) return undefined;
+
+    const header = Object.keys(response.headers || {}).find((name) => name.toLowerCase() === 'retry-after');
+    const retryAfter = header ? String(response.headers[header]) : undefined;
+    if (retryAfter && /^\d+$/.test(retryAfter.trim())) return parseInt(retryAfter, 10) * 1000;
+    if (retryAfter && !Number.isNaN(Date.parse(retryAfter))) return Math.max(0, Date.parse(retryAfter) - Date.now());
+
+    // A 503 without Retry-After is handled like any other server error
+    return response.status === 429 ? Math.min(this.retryMaxDelay, this.retryDelay * Math.pow(2, attempt)) : undefined;
+  }
+
+  private getHost(url: string | undefined): string {
+    try {
+      return new URL(url || '').host || 'default';
+    } catch {
+      // Relative URLs share one limiter and breaker
+      return 'default';
+    }
+  }
+
+  private getLimiter(host: string): RateLimiter {
+    let limiter = this.limiters.get(host);
+    if (!limiter) {
+      limiter = new RateLimiter(host);
+      this.limiters.set(host, limiter);
+    }
+    return limiter;
+  }
+
+  private getBreaker(host: string): CircuitBreaker {
+    let breaker = this.breakers.get(host);
+    if (!breaker) {
+      breaker = new CircuitBreaker(host, this.circuitBreaker);
+      this.breakers.set(host, breaker);
+    }
+    return breaker;
+  }
+
+  async request<T = any>(config: AxiosRequestConfig, options: RequestOptions = {}): Promise<AxiosResponse<T>> {
+    const limits = options.rateLimit || this.rateLimit;
+    const host = this.getHost(config.url);
+    const limiter = this.getLimiter(host);
+    const breaker = this.getBreaker(host);
+    const retryable = this.isRetryable(config);
+
+    for (let attempt = 0; ; attempt++) {
+      // Fails fast with CircuitOpenError while the host is considered down
+      breaker.assertAvailable();
+      const release = await limiter.acquire(limits);
+
+      let response: AxiosResponse<T> | undefined;
+      let error: any;
       try {
-        return await this.client.request<T>(config);
-      } catch (error: any) {
-        lastError = error;
-        
-        if (!this.shouldRetry(error, attempt)) {
-          throw error;
-        }
-
-        const delay = this.retryDelay * Math.pow(2, attempt); // Exponential backoff
-        this.logger.warn(`Request failed, retrying...`, {
-          attempt: attempt + 1,
-          maxRetries: this.maxRetries,
-          delay,
-          error: error.message,
-        });
-        
-        await this.delay(delay);
+        // Proxy and TLS settings of the target host; explicit options of the caller win
+        response = await this.client.request<T>({ ...this.networkAgents.getRequestOptions(config.url), ...config });
+      } catch (requestError: any) {
+        error = requestError;
+        response = requestError.response;
+      } finally {
+        release();
+      }
+
+      // Client errors say nothing about the health of the host
+      breaker.record(!!response && response.status < 500);
+      if (response) {
+        limiter.observe(response.headers);
+      }
+
+      // Callers that accept every status still get throttled and failed responses retried
+      const retry = this.getRetry(response, attempt, retryable, limits);
+      if (!retry) {
+        if (error) throw error;
+        return response as AxiosResponse<T>;
+      }
+
+      this.logger.warn(`Request failed, retrying...`, {
+        attempt: attempt + 1,
+        maxRetries: this.maxRetries,
+        delay: retry.delay,
+        status: response?.status,
+        error: error?.message,
+      });
+
+      if (retry.throttled) {
+        limiter.pause(retry.delay);
+      } else {
+        await this.delay(retry.delay);
       }
     }
+  }
 
-    throw lastError;
+  /**
+   * Closes pooled connections
+   */
+  dispose(): void {
+    this.networkAgents.dispose();
   }
 
   async get<T = any>(url: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
@@ -1,4 +1,11 @@
 export * from './config.js';
 export * from './logger.js';
 export * from './cache.js';
-export * from './http-client.js'; 
\ No newline at end of file
+export * from './cache-store.js';
+export * from './rate-limiter.js';
+export * from './circuit-breaker.js';
+export * from './network-agents.js';
+export * from './http-client.js'; 
+export * from './schema-validator.js';
+export * from './secret-redactor.js';
+export * from './glob.js';
\ No newline at end of file
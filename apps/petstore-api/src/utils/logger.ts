@@ -1,3 +1,5 @@
+import { SecretRedactor } from './secret-redactor.js';
+
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
 interface LogEntry {
@@ -29,8 +31,8 @@ export class Logger {
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
-      message: `[${this.context}] ${message}`,
-      context,
+      message: SecretRedactor.redact(`[${this.context}] ${message}`),
+      context: context && SecretRedactor.redactValue(context),
     };
 
     // Log to stderr as per MCP convention
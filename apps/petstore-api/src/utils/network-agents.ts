@@ -0,0 +1,175 @@
+import { readFileSync } from 'fs';
+import { Agent as HttpAgent, request as httpRequest, ClientRequest, IncomingMessage } from 'http';
+import { Agent as HttpsAgent, AgentOptions as HttpsAgentOptions, request as httpsRequest } from 'https';
+import { Socket } from 'net';
+import { connect as tlsConnect, rootCertificates, ConnectionOptions } from 'tls';
+import { AxiosProxyConfig, AxiosRequestConfig } from 'axios';
+import { Logger } from './logger.js';
+import { ClientCertificate, NetworkConfig } from './config.js';
+
+export type NetworkRequestOptions = Pick<AxiosRequestConfig, 'httpAgent' | 'httpsAgent' | 'proxy'>;
+
+/**
+ * HTTPS agent that reaches its targets through an HTTP(S) proxy with CONNECT, so TLS (including client
+ * certificates) is negotiated end to end with the upstream instead of the proxy
+ */
+export class ProxyTunnelAgent extends HttpsAgent {
+  private readonly proxyUrl: URL;
+
+  constructor(proxyUrl: URL, options: HttpsAgentOptions) {
+    super(options);
+    this.proxyUrl = proxyUrl;
+  }
+
+  /**
+   * Called by the agent for every new socket; the callback form lets the tunnel be opened asynchronously
+   */
+  createConnection(options: ConnectionOptions, callback: (error: Error | null, socket?: Socket) => void): undefined {
+    const target = `${options.host}:${options.port || 443}`;
+    const headers: Record<string, string> = { host: target };
+    if (this.proxyUrl.username) {
+      const credentials = `${decodeURIComponent(this.proxyUrl.username)}:${decodeURIComponent(this.proxyUrl.password)}`;
+      headers['Proxy-Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const connectRequest: ClientRequest = (this.proxyUrl.protocol === 'https:' ? httpsRequest : httpRequest)({
+      host: this.proxyUrl.hostname,
+      port: this.proxyUrl.port || (this.proxyUrl.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: target,
+      headers,
+      agent: false,
+      ...(this.proxyUrl.protocol === 'https:' ? { ca: options.ca, rejectUnauthorized: options.rejectUnauthorized } : {}),
+    });
+
+    connectRequest.once('connect', (response: IncomingMessage, socket: Socket) => {
+      if (response.statusCode !== 200) {
+        socket.destroy();
+        callback(new Error(`Proxy ${this.proxyUrl.host} refused the tunnel to ${target}: HTTP ${response.statusCode}`));
+        return;
+      }
+      callback(null, tlsConnect({ ...options, socket, servername: options.servername || options.host }));
+    });
+    connectRequest.once('error', (error) => callback(error));
+    connectRequest.end();
+    return undefined;
+  }
+}
+
+/**
+ * Picks the proxy, CA bundle and client certificate for each outbound request and keeps one agent per
+ * configuration so connections are reused
+ */
+export class NetworkAgents {
+  private readonly logger = new Logger('NetworkAgents');
+  private readonly config: NetworkConfig;
+  private readonly ca?: string[];
+  private readonly agents = new Map<string, HttpAgent>();
+
+  constructor(config: NetworkConfig) {
+    this.config = config;
+    if (config.caFiles.length > 0) {
+      // Extra bundles are trusted on top of the system roots, not instead of them
+      this.ca = [...rootCertificates, ...config.caFiles.map((file) => this.readFile(file, 'CA bundle'))];
+    }
+    if (config.insecure) {
+      this.logger.warn('TLS certificate verification is disabled; use TLS_INSECURE for local development only');
+    }
+  }
+
+  /**
+   * Axios options routing a request to `url` through the configured proxy and TLS settings
+   */
+  getRequestOptions(url: string | undefined): NetworkRequestOptions {
+    let target: URL;
+    try {
+      target = new URL(url || '');
+    } catch {
+      return {};
+    }
+
+    const proxy = this.getProxy(target);
+    if (target.protocol === 'http:') {
+      // Plain HTTP is forwarded by the proxy as is, which axios handles itself
+      return { proxy: proxy ? this.toAxiosProxy(proxy) : false };
+    }
+
+    const certificate = this.getClientCertificate(target);
+    const key = `${proxy?.href || 'direct'}|${certificate ? target.host : '*'}`;
+    let agent = this.agents.get(key);
+    if (!agent) {
+      const options: HttpsAgentOptions = {
+        keepAlive: true,
+        ca: this.ca,
+        rejectUnauthorized: !this.config.insecure,
+        ...(certificate
+          ? {
+              cert: this.readFile(certificate.certFile, 'client certificate'),
+              key: this.readFile(certificate.keyFile, 'client key'),
+              passphrase: certificate.passphrase,
+            }
+          : {}),
+      };
+      agent = proxy ? new ProxyTunnelAgent(proxy, options) : new HttpsAgent(options);
+      this.agents.set(key, agent);
+      this.logger.debug(`Created HTTPS agent`, { proxy: proxy?.host, clientCertificate: !!certificate });
+    }
+
+    // The tunnel replaces axios' own proxy handling, which cannot carry TLS through CONNECT
+    return { httpsAgent: agent, proxy: false };
+  }
+
+  /**
+   * Closes idle keep-alive connections
+   */
+  dispose(): void {
+    this.agents.forEach((agent) => agent.destroy());
+    this.agents.clear();
+  }
+
+  private getProxy(target: URL): URL | undefined {
+    const proxy = target.protocol === 'https:' ? this.config.httpsProxy : this.config.httpProxy;
+    if (!proxy || this.bypassesProxy(target)) return undefined;
+    // Proxies are often given without a scheme, e.g. proxy.corp:3128
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(proxy) ? proxy : `http://${proxy}`);
+  }
+
+  /**
+   * NO_PROXY entries match the host or any subdomain of it, optionally only on one port; `*` matches everything
+   */
+  private bypassesProxy(target: URL): boolean {
+    const hostname = target.hostname.toLowerCase();
+    const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+    return this.config.noProxy.some((entry) => {
+      if (entry === '*') return true;
+      const [entryHost, entryPort] = entry.toLowerCase().replace(/^\*?\./, '').split(':');
+      if (entryPort && entryPort !== port) return false;
+      return hostname === entryHost || hostname.endsWith(`.${entryHost}`);
+    });
+  }
+
+  private getClientCertificate(target: URL): ClientCertificate | undefined {
+    const certificates = this.config.clientCertificates;
+    return certificates[target.host] || certificates[target.hostname] || this.config.clientCertificate;
+  }
+
+  private toAxiosProxy(proxy: URL): AxiosProxyConfig {
+    return {
+      protocol: proxy.protocol.replace(/:$/, ''),
+      host: proxy.hostname,
+      port: parseInt(proxy.port || (proxy.protocol === 'https:' ? '443' : '80'), 10),
+      ...(proxy.username
+        ? { auth: { username: decodeURIComponent(proxy.username), password: decodeURIComponent(proxy.password) } }
+        : {}),
+    };
+  }
+
+  private readFile(path: string, description: string): string {
+    try {
+      return readFileSync(path, 'utf-8');
+    } catch (error) {
+      throw new Error(`Cannot read ${description} ${path}: ${(error as Error).message}`);
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { Logger } from './logger.js';
+import { RateLimitConfig } from './config.js';
+
+// Below this share of the advertised limit, requests are spread over the rest of the window
+const LOW_REMAINING_RATIO = 0.1;
+
+/**
+ * Thrown when a host asked to wait (Retry-After, exhausted rate limit) for longer than the configured maximum
+ */
+export class RateLimitError extends Error {
+  readonly host: string;
+  readonly retryAt: number;
+
+  constructor(host: string, retryAt: number) {
+    super(`${host} is rate limited for another ${Math.ceil((retryAt - Date.now()) / 1000)}s`);
+    this.name = 'RateLimitError';
+    this.host = host;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Throttles the requests to one host: a token bucket for the request rate, a FIFO queue for
+ * concurrency, and a pause window fed by Retry-After and X-RateLimit-* response headers
+ */
+export class RateLimiter {
+  private readonly logger = new Logger('RateLimiter');
+  private readonly host: string;
+  private tokens: number | null = null;
+  private lastRefill = Date.now();
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+  // No request starts before this timestamp
+  private notBefore = 0;
+
+  constructor(host: string) {
+    this.host = host;
+  }
+
+  /**
+   * Waits for a concurrency slot and a token; call the returned function when the request completes
+   */
+  async acquire(limits: RateLimitConfig): Promise<() => void> {
+    if (limits.maxConcurrency > 0 && this.active >= limits.maxConcurrency) {
+      await new Promise<void>((resolve) => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      const next = this.queue.shift();
+      // The slot passes straight to the next waiter, so `active` only drops when nobody is queued
+      if (next) next();
+      else this.active--;
+    };
+
+    try {
+      await this.waitForPause(limits);
+      await this.takeToken(limits);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    return release;
+  }
+
+  /**
+   * Holds back new requests for `delay` ms, e.g. after a 429 with Retry-After
+   */
+  pause(delay: number): void {
+    this.notBefore = Math.max(this.notBefore, Date.now() + delay);
+  }
+
+  /**
+   * Slows down ahead of the limit advertised by X-RateLimit-* (or IETF RateLimit-*) headers
+   */
+  observe(headers: Record<string, any> = {}): void {
+    const read = (name: string) => {
+      const key = Object.keys(headers).find(
+        (header) => header.toLowerCase() === `x-ratelimit-${name}` || header.toLowerCase() === `ratelimit-${name}`
+      );
+      const value = key ? parseFloat(String(headers[key])) : NaN;
+      return Number.isNaN(value) ? undefined : value;
+    };
+
+    const remaining = read('remaining');
+    const reset = read('reset');
+    if (remaining === undefined || reset === undefined) return;
+
+    // Reset is either seconds until the window ends or an epoch timestamp in seconds
+    const resetIn = Math.max(0, reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000);
+    const limit = read('limit');
+
+    if (remaining <= 0) {
+      this.logger.warn(`Rate limit of ${this.host} exhausted, pausing`, { resetIn });
+      this.pause(resetIn);
+    } else if (limit === undefined || remaining <= limit * LOW_REMAINING_RATIO) {
+      this.pause(resetIn / (remaining + 1));
+    }
+  }
+
+  private async waitForPause(limits: RateLimitConfig): Promise<void> {
+    const wait = this.notBefore - Date.now();
+    if (wait <= 0) return;
+    if (wait > limits.maxWait) {
+      throw new RateLimitError(this.host, this.notBefore);
+    }
+
+    this.logger.debug(`Waiting ${wait}ms before the next request to ${this.host}`);
+    await this.sleep(wait);
+  }
+
+  private async takeToken(limits: RateLimitConfig): Promise<void> {
+    if (limits.requestsPerSecond <= 0) return;
+
+    const capacity = Math.max(1, limits.burst || limits.requestsPerSecond);
+    for (;;) {
+      const now = Date.now();
+      const refill = ((now - this.lastRefill) / 1000) * limits.requestsPerSecond;
+      this.tokens = Math.min(capacity, (this.tokens ?? capacity) + refill);
+      this.lastRefill = now;
+
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      await this.sleep(((1 - this.tokens) / limits.requestsPerSecond) * 1000);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, Math.ceil(ms)));
+  }
+}
@@ -1,155 +1,421 @@
 import { OpenAPIV3 } from 'openapi-types';
+import { Logger } from './logger.js';
+
+export interface ValidationIssue {
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+export class ValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+type Schema = OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+
+// Requests omit readOnly properties, responses omit writeOnly ones
+export type ValidationDirection = 'request' | 'response';
+
+const INT32_MIN = -2147483648;
+const INT32_MAX = 2147483647;
+const INT64_PATTERN = /^-?\d{1,19}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BYTE_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
 
 export class SchemaValidator {
+  // Compiled `pattern` keywords shared by all validators; null marks patterns JavaScript cannot compile
+  private static readonly patterns = new Map<string, RegExp | null>();
+  private readonly logger = new Logger('SchemaValidator');
+  private readonly document?: OpenAPIV3.Document;
+  private readonly direction: ValidationDirection;
+
+  /**
+   * @param document Document used to resolve local `$ref` pointers (e.g. `#/components/schemas/Pet`)
+   * @param direction Decides whether readOnly or writeOnly properties may be missing
+   */
+  constructor(document?: OpenAPIV3.Document, direction: ValidationDirection = 'request') {
+    this.document = document;
+    this.direction = direction;
+  }
+
   /**
-   * Validates a value against an OpenAPI schema
+   * Validates a value against an OpenAPI schema and returns every violation found
    */
-  static validate(value: any, schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, paramName: string): void {
+  validate(value: any, schema: Schema | undefined, path: string): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    this.validateValue(value, schema, path, issues, new Set());
+    return issues;
+  }
+
+  private validateValue(
+    value: any,
+    schema: Schema | undefined,
+    path: string,
+    issues: ValidationIssue[],
+    seenRefs: Set<string>
+  ): void {
+    if (!schema) return;
+
     if ('$ref' in schema) {
-      // For now, skip reference validation
+      // Guard against a $ref that resolves to itself without consuming any of the value
+      if (seenRefs.has(schema.$ref)) return;
+      const resolved = this.resolveReference(schema.$ref);
+      if (!resolved) {
+        issues.push({ path, keyword: '$ref', message: `Cannot resolve schema reference ${schema.$ref}` });
+        return;
+      }
+      this.validateValue(value, resolved, path, issues, new Set(seenRefs).add(schema.$ref));
       return;
     }
 
     const schemaObj = schema as OpenAPIV3.SchemaObject;
 
-    // Check required
-    if (value === undefined || value === null) {
-      if (schemaObj.nullable === true || !schemaObj.required) {
-        return;
+    if (value === null) {
+      if (schemaObj.nullable !== true && schemaObj.type !== undefined) {
+        issues.push({ path, keyword: 'nullable', message: 'must not be null' });
       }
-      throw new Error(`Parameter "${paramName}" is required`);
+      return;
+    }
+
+    this.validateComposition(value, schemaObj, path, issues, seenRefs);
+
+    if (schemaObj.enum && !schemaObj.enum.some((option) => this.isEqual(option, value))) {
+      issues.push({ path, keyword: 'enum', message: `must be one of: ${schemaObj.enum.join(', ')}` });
     }
 
-    // Validate type
     switch (schemaObj.type) {
       case 'string':
         if (typeof value !== 'string') {
-          throw new Error(`Parameter "${paramName}" must be a string`);
+          issues.push({ path, keyword: 'type', message: 'must be a string' });
+          return;
         }
-        this.validateString(value, schemaObj, paramName);
+        this.validateString(value, schemaObj, path, issues);
         break;
 
       case 'number':
       case 'integer':
-        if (typeof value !== 'number') {
-          throw new Error(`Parameter "${paramName}" must be a number`);
+        if (typeof value !== 'number' || Number.isNaN(value)) {
+          // int64 values beyond Number.MAX_SAFE_INTEGER may only be passed as strings
+          if (!(schemaObj.format === 'int64' && typeof value === 'string' && INT64_PATTERN.test(value))) {
+            issues.push({ path, keyword: 'type', message: `must be ${schemaObj.type === 'integer' ? 'an integer' : 'a number'}` });
+          }
+          return;
         }
-        this.validateNumber(value, schemaObj, paramName);
+        this.validateNumber(value, schemaObj, path, issues);
         break;
 
       case 'boolean':
         if (typeof value !== 'boolean') {
-          throw new Error(`Parameter "${paramName}" must be a boolean`);
+          issues.push({ path, keyword: 'type', message: 'must be a boolean' });
         }
         break;
 
       case 'array':
         if (!Array.isArray(value)) {
-          throw new Error(`Parameter "${paramName}" must be an array`);
+          issues.push({ path, keyword: 'type', message: 'must be an array' });
+          return;
         }
-        this.validateArray(value, schemaObj, paramName);
+        this.validateArray(value, schemaObj, path, issues, seenRefs);
         break;
 
       case 'object':
-        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
-          throw new Error(`Parameter "${paramName}" must be an object`);
+        if (typeof value !== 'object' || Array.isArray(value)) {
+          issues.push({ path, keyword: 'type', message: 'must be an object' });
+          return;
         }
-        this.validateObject(value, schemaObj, paramName);
+        this.validateObject(value, schemaObj, path, issues, seenRefs);
         break;
+
+      default:
+        // Untyped schemas may still carry object constraints (common in allOf members)
+        if ((schemaObj.properties || schemaObj.required) && typeof value === 'object' && !Array.isArray(value)) {
+          this.validateObject(value, schemaObj, path, issues, seenRefs);
+        }
     }
   }
 
-  private static validateString(value: string, schema: OpenAPIV3.SchemaObject, paramName: string): void {
-    // Check enum values
-    if (schema.enum && !schema.enum.includes(value)) {
-      throw new Error(`Parameter "${paramName}" must be one of: ${schema.enum.join(', ')}`);
+  private validateComposition(
+    value: any,
+    schema: OpenAPIV3.SchemaObject,
+    path: string,
+    issues: ValidationIssue[],
+    seenRefs: Set<string>
+  ): void {
+    if (schema.allOf) {
+      schema.allOf.forEach((subSchema) => this.validateValue(value, subSchema, path, issues, seenRefs));
     }
 
-    // Check pattern
-    if (schema.pattern) {
-      const regex = new RegExp(schema.pattern);
-      if (!regex.test(value)) {
-        throw new Error(`Parameter "${paramName}" does not match pattern: ${schema.pattern}`);
+    if (schema.anyOf) {
+      const matches = schema.anyOf.some((subSchema) => this.matches(value, subSchema, path, seenRefs));
+      if (!matches) {
+        issues.push({ path, keyword: 'anyOf', message: 'must match at least one of the allowed schemas' });
+      }
+    }
+
+    if (schema.oneOf) {
+      const matchCount = schema.oneOf.filter((subSchema) => this.matches(value, subSchema, path, seenRefs)).length;
+      if (matchCount !== 1) {
+        issues.push({
+          path,
+          keyword: 'oneOf',
+          message: matchCount === 0
+            ? 'must match exactly one of the allowed schemas, but matches none'
+            : `must match exactly one of the allowed schemas, but matches ${matchCount}`,
+        });
       }
     }
 
+    if (schema.not && this.matches(value, schema.not, path, seenRefs)) {
+      issues.push({ path, keyword: 'not', message: 'must not match the disallowed schema' });
+    }
+  }
+
+  private matches(value: any, schema: Schema, path: string, seenRefs: Set<string>): boolean {
+    const subIssues: ValidationIssue[] = [];
+    this.validateValue(value, schema, path, subIssues, seenRefs);
+    return subIssues.length === 0;
+  }
+
+  private validateString(value: string, schema: OpenAPIV3.SchemaObject, path: string, issues: ValidationIssue[]): void {
+    // Check pattern
+    const pattern = schema.pattern ? this.compilePattern(schema.pattern) : null;
+    if (pattern && !pattern.test(value)) {
+      issues.push({ path, keyword: 'pattern', message: `does not match pattern: ${schema.pattern}` });
+    }
+
     // Check length constraints
     if (schema.minLength !== undefined && value.length < schema.minLength) {
-      throw new Error(`Parameter "${paramName}" must be at least ${schema.minLength} characters long`);
+      issues.push({ path, keyword: 'minLength', message: `must be at least ${schema.minLength} characters long` });
     }
     if (schema.maxLength !== undefined && value.length > schema.maxLength) {
-      throw new Error(`Parameter "${paramName}" must be at most ${schema.maxLength} characters long`);
+      issues.push({ path, keyword: 'maxLength', message: `must be at most ${schema.maxLength} characters long` });
     }
+
+    this.validateStringFormat(value, schema.format, path, issues);
   }
 
-  private static validateNumber(value: number, schema: OpenAPIV3.SchemaObject, paramName: string): void {
-    // Check minimum/maximum
+  private validateStringFormat(value: string, format: string | undefined, path: string, issues: ValidationIssue[]): void {
+    switch (format) {
+      case 'date-time':
+        if (!DATE_TIME_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+          issues.push({ path, keyword: 'format', message: 'must be an RFC 3339 date-time (e.g. 2024-01-15T10:30:00Z)' });
+        }
+        break;
+
+      case 'date':
+        if (!DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+          issues.push({ path, keyword: 'format', message: 'must be a full-date (e.g. 2024-01-15)' });
+        }
+        break;
+
+      case 'email':
+        if (!EMAIL_PATTERN.test(value)) {
+          issues.push({ path, keyword: 'format', message: 'must be a valid email address' });
+        }
+        break;
+
+      case 'uuid':
+        if (!UUID_PATTERN.test(value)) {
+          issues.push({ path, keyword: 'format', message: 'must be a valid UUID' });
+        }
+        break;
+
+      case 'byte':
+        if (value.length % 4 !== 0 || !BYTE_PATTERN.test(value)) {
+          issues.push({ path, keyword: 'format', message: 'must be base64 encoded' });
+        }
+        break;
+
+      case 'uri':
+        try {
+          new URL(value);
+        } catch {
+          issues.push({ path, keyword: 'format', message: 'must be an absolute URI' });
+        }
+        break;
+    }
+  }
+
+  private validateNumber(value: number, schema: OpenAPIV3.SchemaObject, path: string, issues: ValidationIssue[]): void {
+    // Check integer
+    if (schema.type === 'integer' && !Number.isInteger(value)) {
+      issues.push({ path, keyword: 'type', message: 'must be an integer' });
+    }
+
+    // Check format ranges
+    if (schema.format === 'int32' && (value < INT32_MIN || value > INT32_MAX)) {
+      issues.push({ path, keyword: 'format', message: 'must fit in a 32-bit signed integer (int32)' });
+    }
+    if (schema.format === 'int64' && Number.isInteger(value) && !Number.isSafeInteger(value)) {
+      issues.push({
+        path,
+        keyword: 'format',
+        message: 'must be a 64-bit integer (int64); pass values beyond ±2^53 as a string',
+      });
+    }
+
+    // Check minimum/maximum (boolean exclusive* is OpenAPI 3.0, numeric is 3.1)
+    const exclusiveMinimum = schema.exclusiveMinimum as boolean | number | undefined;
+    if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) {
+      issues.push({ path, keyword: 'exclusiveMinimum', message: `must be greater than ${exclusiveMinimum}` });
+    }
     if (schema.minimum !== undefined) {
-      const isExclusive = schema.exclusiveMinimum === true;
+      const isExclusive = exclusiveMinimum === true;
       if (isExclusive ? value <= schema.minimum : value < schema.minimum) {
-        throw new Error(`Parameter "${paramName}" must be ${isExclusive ? 'greater than' : 'at least'} ${schema.minimum}`);
+        issues.push({ path, keyword: 'minimum', message: `must be ${isExclusive ? 'greater than' : 'at least'} ${schema.minimum}` });
       }
     }
 
+    const exclusiveMaximum = schema.exclusiveMaximum as boolean | number | undefined;
+    if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) {
+      issues.push({ path, keyword: 'exclusiveMaximum', message: `must be less than ${exclusiveMaximum}` });
+    }
     if (schema.maximum !== undefined) {
-      const isExclusive = schema.exclusiveMaximum === true;
+      const isExclusive = exclusiveMaximum === true;
       if (isExclusive ? value >= schema.maximum : value > schema.maximum) {
-        throw new Error(`Parameter "${paramName}" must be ${isExclusive ? 'less than' : 'at most'} ${schema.maximum}`);
+        issues.push({ path, keyword: 'maximum', message: `must be ${isExclusive ? 'less than' : 'at most'} ${schema.maximum}` });
       }
     }
 
-    // Check integer
-    if (schema.type === 'integer' && !Number.isInteger(value)) {
-      throw new Error(`Parameter "${paramName}" must be an integer`);
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+      issues.push({ path, keyword: 'multipleOf', message: `must be a multiple of ${schema.multipleOf}` });
     }
   }
 
-  private static validateArray(value: any[], schema: OpenAPIV3.SchemaObject, paramName: string): void {
+  private validateArray(
+    value: any[],
+    schema: OpenAPIV3.SchemaObject,
+    path: string,
+    issues: ValidationIssue[],
+    seenRefs: Set<string>
+  ): void {
     // Cast to ArraySchemaObject for array-specific properties
     const arraySchema = schema as OpenAPIV3.ArraySchemaObject;
-    
+
     // Check array constraints
     if (arraySchema.minItems !== undefined && value.length < arraySchema.minItems) {
-      throw new Error(`Parameter "${paramName}" must have at least ${arraySchema.minItems} items`);
+      issues.push({ path, keyword: 'minItems', message: `must have at least ${arraySchema.minItems} items` });
     }
     if (arraySchema.maxItems !== undefined && value.length > arraySchema.maxItems) {
-      throw new Error(`Parameter "${paramName}" must have at most ${arraySchema.maxItems} items`);
+      issues.push({ path, keyword: 'maxItems', message: `must have at most ${arraySchema.maxItems} items` });
+    }
+    if (arraySchema.uniqueItems) {
+      const hasDuplicates = value.some((item, index) => value.findIndex((other) => this.isEqual(other, item)) !== index);
+      if (hasDuplicates) {
+        issues.push({ path, keyword: 'uniqueItems', message: 'must not contain duplicate items' });
+      }
     }
 
     // Validate array items
     if (arraySchema.items) {
       value.forEach((item, index) => {
-        this.validate(item, arraySchema.items as OpenAPIV3.SchemaObject, `${paramName}[${index}]`);
+        this.validateValue(item, arraySchema.items, `${path}[${index}]`, issues, seenRefs);
       });
     }
   }
 
-  private static validateObject(value: Record<string, any>, schema: OpenAPIV3.SchemaObject, paramName: string): void {
-    // Check required properties
+  private validateObject(
+    value: Record<string, any>,
+    schema: OpenAPIV3.SchemaObject,
+    path: string,
+    issues: ValidationIssue[],
+    seenRefs: Set<string>
+  ): void {
+    const properties = schema.properties || {};
+
+    // Check required properties (readOnly properties are never sent by the client, writeOnly never returned)
     if (schema.required) {
       for (const requiredProp of schema.required) {
-        if (!(requiredProp in value)) {
-          throw new Error(`Property "${requiredProp}" is required in "${paramName}"`);
+        const propSchema = this.dereference(properties[requiredProp]);
+        const omitted = this.direction === 'request' ? propSchema?.readOnly : propSchema?.writeOnly;
+        if (!(requiredProp in value) && !omitted) {
+          issues.push({ path: `${path}.${requiredProp}`, keyword: 'required', message: 'is required' });
         }
       }
     }
 
     // Validate properties
-    if (schema.properties) {
-      for (const [propName, propSchema] of Object.entries(schema.properties)) {
-        if (propName in value) {
-          this.validate(value[propName], propSchema, `${paramName}.${propName}`);
-        }
+    for (const [propName, propSchema] of Object.entries(properties)) {
+      if (propName in value) {
+        this.validateValue(value[propName], propSchema, `${path}.${propName}`, issues, seenRefs);
       }
     }
 
     // Check additional properties
-    if (schema.additionalProperties === false) {
-      const definedProps = Object.keys(schema.properties || {});
-      const extraProps = Object.keys(value).filter(key => !definedProps.includes(key));
-      if (extraProps.length > 0) {
-        throw new Error(`Unexpected properties in "${paramName}": ${extraProps.join(', ')}`);
+    const extraProps = Object.keys(value).filter((key) => !(key in properties));
+    if (schema.additionalProperties === false && extraProps.length > 0) {
+      issues.push({ path, keyword: 'additionalProperties', message: `has unexpected properties: ${extraProps.join(', ')}` });
+    } else if (typeof schema.additionalProperties === 'object') {
+      for (const propName of extraProps) {
+        this.validateValue(value[propName], schema.additionalProperties, `${path}.${propName}`, issues, seenRefs);
       }
     }
+
+    const propertyCount = Object.keys(value).length;
+    if (schema.minProperties !== undefined && propertyCount < schema.minProperties) {
+      issues.push({ path, keyword: 'minProperties', message: `must have at least ${schema.minProperties} properties` });
+    }
+    if (schema.maxProperties !== undefined && propertyCount > schema.maxProperties) {
+      issues.push({ path, keyword: 'maxProperties', message: `must have at most ${schema.maxProperties} properties` });
+    }
+  }
+
+  private dereference(schema: Schema | undefined): OpenAPIV3.SchemaObject | undefined {
+    if (schema && '$ref' in schema) {
+      return this.resolveReference(schema.$ref) ?? undefined;
+    }
+    return schema;
+  }
+
+  private resolveReference(ref: string): any {
+    if (!ref.startsWith('#/') || !this.document) return null;
+
+    const parts = ref
+      .slice(2)
+      .split('/')
+      .map((part) => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'));
+    let current: any = this.document;
+
+    for (const part of parts) {
+      current = current?.[part];
+      if (current === undefined) return null;
+    }
+
+    return current;
+  }
+
+  private isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+
+  /**
+   * Compiles a pattern once; patterns that are not valid JavaScript regular expressions are skipped with one warning
+   */
+  private compilePattern(source: string): RegExp | null {
+    const cached = SchemaValidator.patterns.get(source);
+    if (cached !== undefined) return cached;
+
+    let pattern: RegExp | null = null;
+    try {
+      pattern = new RegExp(source);
+    } catch (error) {
+      this.logger.warn('Skipping pattern that is not a valid regular expression', {
+        pattern: source,
+        error: (error as Error).message,
+      });
+    }
+    SchemaValidator.patterns.set(source, pattern);
+    return pattern;
   }
-} 
\ No newline at end of file
+}
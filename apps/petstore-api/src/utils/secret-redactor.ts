@@ -0,0 +1,67 @@
+const REDACTED = '[REDACTED]';
+const SENSITIVE_KEY_PATTERN = /^(authorization|proxy-authorization|cookie|set-cookie|x-api-key|api[-_]?key|password|secret|client[-_]?secret|(access|refresh|id)[-_]?token|token)$/i;
+
+// Shortest value worth redacting; guards against masking common substrings like "1"
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Process-wide registry of secret values (API keys, passwords, tokens) that must
+ * never leave the process through logs or resources.
+ */
+export class SecretRedactor {
+  private static readonly secrets = new Set<string>();
+
+  static register(secret: string | undefined): void {
+    if (secret && secret.length >= MIN_SECRET_LENGTH) {
+      this.secrets.add(secret);
+    }
+  }
+
+  static isSensitiveKey(key: string): boolean {
+    return SENSITIVE_KEY_PATTERN.test(key);
+  }
+
+  /**
+   * Replaces every registered secret in a string
+   */
+  static redact(text: string): string {
+    let result = text;
+    // Longest first, so a secret containing another secret is masked whole
+    const secrets = Array.from(this.secrets).sort((a, b) => b.length - a.length);
+    for (const secret of secrets) {
+      result = result.split(secret).join(REDACTED);
+      // Query string credentials are logged URL encoded
+      const encoded = encodeURIComponent(secret);
+      if (encoded !== secret) {
+        result = result.split(encoded).join(REDACTED);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Deep-copies a value, masking sensitive keys and registered secrets
+   */
+  static redactValue<T>(value: T, seen = new WeakSet<object>()): T {
+    if (typeof value === 'string') {
+      return this.redact(value) as T;
+    }
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]' as T;
+    }
+    seen.add(value);
+
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactValue(item, seen)) as T;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = this.isSensitiveKey(key) && item !== undefined && item !== null ? REDACTED : this.redactValue(item, seen);
+    }
+    return result as T;
+  }
+}